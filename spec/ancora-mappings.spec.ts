@@ -1,17 +1,90 @@
-import { Observation } from 'fhir/r4';
-import { CANCERSTAGING_SYSTEM, LOINC_SYSTEM, SNOMED_CT_SYSTEM } from '../src/ancora-mapping-data';
-import { findQueryFlagsForCode, tumorStageForCode, findTumorStage } from '../src/ancora-mappings';
+import { Coding, Condition, Observation, Patient } from 'fhir/r4';
+import { CANCERSTAGING_SYSTEM, HGNC_SYSTEM, ICD_10_SYSTEM, LOINC_SYSTEM, RX_NORM_SYSTEM, SNOMED_CT_SYSTEM, normalizeSystem } from '../src/ancora-mapping-data';
+import { findQueryFlagsForCode, tumorStageForCode, findTumorStage, findGeneticVariant, findTumorSize, findPSA, findDiseaseStatusStage,
+  findDiseaseStatusControlled, isBrainMetastasis, isConditionControlled,
+  findComorbidityFlagsForCode, findPregnancyStatus, findMenopausalStatus, findObservedMenopausalStatus,
+  findTNMCategory, findPerformanceStatus, ecogToKarnofsky, karnofskyToEcog, findDiseaseTypeForCode,
+  findBirthSex, findSexAssignedAtBirth, US_CORE_BIRTH_SEX_EXTENSION_URL } from '../src/ancora-mappings';
 
 describe('findQueryFlagsForCode', () => {
   it('handles a valid mapping', () => {
     expect(findQueryFlagsForCode(LOINC_SYSTEM, '85337-4')).toEqual(['er']);
   });
+  it('handles HGNC gene mappings', () => {
+    expect(findQueryFlagsForCode(HGNC_SYSTEM, 'HGNC:427')).toEqual(['alk']);
+    expect(findQueryFlagsForCode(HGNC_SYSTEM, 'HGNC:10261')).toEqual(['ros1']);
+  });
+  it('handles system aliases', () => {
+    expect(findQueryFlagsForCode('urn:oid:2.16.840.1.113883.6.1', '85337-4')).toEqual(['er']);
+    expect(findQueryFlagsForCode('http://hl7.org/fhir/sid/icd-10-cm', 'C7931')).toEqual(['brain_metastases']);
+  });
+  it('matches ICD-10 codes on their prefixes, with or without the dot', () => {
+    expect(findQueryFlagsForCode(ICD_10_SYSTEM, 'C79.31')).toEqual(['brain_metastases']);
+    expect(findQueryFlagsForCode(ICD_10_SYSTEM, 'C79.39')).toEqual(['brain_metastases']);
+    expect(findQueryFlagsForCode(ICD_10_SYSTEM, 'C79.4')).toBeNull();
+  });
   it('returns null on an unknown mapping', () => {
     expect(findQueryFlagsForCode(LOINC_SYSTEM, 'unknown')).toBeNull();
     expect(findQueryFlagsForCode('http://www.example.com/invalid', 'unknown')).toBeNull();
   });
 });
 
+describe('normalizeSystem', () => {
+  it('normalizes aliases', () => {
+    expect(normalizeSystem('http://hl7.org/fhir/sid/icd-10-cm')).toEqual(ICD_10_SYSTEM);
+    expect(normalizeSystem('urn:oid:2.16.840.1.113883.6.90')).toEqual(ICD_10_SYSTEM);
+    expect(normalizeSystem('urn:oid:2.16.840.1.113883.6.96')).toEqual(SNOMED_CT_SYSTEM);
+    expect(normalizeSystem('urn:oid:2.16.840.1.113883.6.1')).toEqual(LOINC_SYSTEM);
+    expect(normalizeSystem('urn:oid:2.16.840.1.113883.6.88')).toEqual(RX_NORM_SYSTEM);
+  });
+  it('leaves other systems alone', () => {
+    expect(normalizeSystem(SNOMED_CT_SYSTEM)).toEqual(SNOMED_CT_SYSTEM);
+    expect(normalizeSystem('http://www.example.com/')).toEqual('http://www.example.com/');
+    expect(normalizeSystem(undefined)).toBeUndefined();
+  });
+});
+
+describe('findDiseaseTypeForCode', () => {
+  it('finds SNOMED codes', () => {
+    expect(findDiseaseTypeForCode(SNOMED_CT_SYSTEM, '254837009')).toEqual('breast_cancer');
+    expect(findDiseaseTypeForCode('urn:oid:2.16.840.1.113883.6.96', '254837009')).toEqual('breast_cancer');
+  });
+  it('matches ICD-10-CM codes with or without the dot', () => {
+    expect(findDiseaseTypeForCode('http://hl7.org/fhir/sid/icd-10-cm', 'C50.912')).toEqual('breast_cancer');
+    expect(findDiseaseTypeForCode(ICD_10_SYSTEM, 'c50912')).toEqual('breast_cancer');
+  });
+  it('matches ICD-10 codes on their prefixes', () => {
+    expect(findDiseaseTypeForCode(ICD_10_SYSTEM, 'C53.0')).toEqual('cervical_cancer');
+    expect(findDiseaseTypeForCode(ICD_10_SYSTEM, 'D48.601')).toEqual('breast_cancer');
+  });
+  it('returns null on an unknown mapping', () => {
+    expect(findDiseaseTypeForCode(ICD_10_SYSTEM, 'C50')).toBeNull();
+    expect(findDiseaseTypeForCode(LOINC_SYSTEM, '254837009')).toBeNull();
+  });
+});
+
+describe('findComorbidityFlagsForCode', () => {
+  it('matches ICD-10 codes on their category', () => {
+    expect(findComorbidityFlagsForCode(ICD_10_SYSTEM, 'E11')).toEqual(['diabetes']);
+    expect(findComorbidityFlagsForCode(ICD_10_SYSTEM, 'E11.65')).toEqual(['diabetes']);
+    expect(findComorbidityFlagsForCode(ICD_10_SYSTEM, 'e1165')).toEqual(['diabetes']);
+    expect(findComorbidityFlagsForCode(ICD_10_SYSTEM, 'I50.9')).toEqual(['cardiac_disorders']);
+    expect(findComorbidityFlagsForCode(ICD_10_SYSTEM, 'O98.72')?.sort()).toEqual(['hiv', 'pregnant_nursing']);
+  });
+  it('handles system aliases', () => {
+    expect(findComorbidityFlagsForCode('http://hl7.org/fhir/sid/icd-10-cm', 'E11.65')).toEqual(['diabetes']);
+  });
+  it('matches SNOMED codes exactly', () => {
+    expect(findComorbidityFlagsForCode(SNOMED_CT_SYSTEM, '86406008')).toEqual(['hiv']);
+    expect(findComorbidityFlagsForCode(SNOMED_CT_SYSTEM, '8640600')).toBeNull();
+  });
+  it('returns null on an unknown mapping', () => {
+    expect(findComorbidityFlagsForCode(ICD_10_SYSTEM, 'E15')).toBeNull();
+    expect(findComorbidityFlagsForCode(ICD_10_SYSTEM, 'R99')).toBeNull();
+    expect(findComorbidityFlagsForCode(LOINC_SYSTEM, '86406008')).toBeNull();
+  });
+});
+
 describe('tumorStageForCode()', () => {
   it('handles upper and lower case codes for cancerstaging.org codes', () => {
     expect(tumorStageForCode(CANCERSTAGING_SYSTEM, '3A')).toBe(3);
@@ -101,3 +174,393 @@ describe('findTumorStage', () => {
     } as unknown as Observation)).toBeNull();
   });
 });
+
+describe('findGeneticVariant', () => {
+  function createVariant(gene: string, extra: Partial<Observation> = {}, system = HGNC_SYSTEM): Observation {
+    const observation: Observation = {
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '69548-6' } ] },
+      component: [
+        {
+          code: { coding: [ { system: LOINC_SYSTEM, code: '48018-6' } ] },
+          valueCodeableConcept: { coding: [ { system: system, code: gene } ] }
+        }
+      ],
+      ...extra
+    };
+    return observation;
+  }
+
+  it('treats a present variant as positive', () => {
+    expect(findGeneticVariant(createVariant('HGNC:427', {
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA9633-4' } ] }
+    }))).toEqual({ flags: ['alk'], positive: true });
+  });
+
+  it('treats an absent variant as negative', () => {
+    expect(findGeneticVariant(createVariant('HGNC:10261', {
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA9634-2' } ] }
+    }))).toEqual({ flags: ['ros1'], positive: false });
+  });
+
+  it('accepts the legacy HGNC system and bare IDs', () => {
+    expect(findGeneticVariant(createVariant('3236', {
+      valueCodeableConcept: { coding: [ { system: SNOMED_CT_SYSTEM, code: '10828004' } ] }
+    }, 'http://www.genenames.org'))).toEqual({ flags: ['egfr'], positive: true });
+  });
+
+  it('uses the clinical significance over the value', () => {
+    const observation = createVariant('HGNC:1100', {
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA9633-4' } ] }
+    });
+    observation.component?.push({
+      code: { coding: [ { system: LOINC_SYSTEM, code: '53037-8' } ] },
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA6675-8' } ] }
+    });
+    expect(findGeneticVariant(observation)).toEqual({ flags: ['brca1'], positive: false });
+  });
+
+  it('treats a described variant as positive', () => {
+    const observation = createVariant('HGNC:1097');
+    observation.component?.push({
+      code: { coding: [ { system: LOINC_SYSTEM, code: '48005-3' } ] },
+      valueCodeableConcept: { coding: [ { system: 'http://varnomen.hgvs.org', code: 'p.Val600Glu' } ] }
+    });
+    expect(findGeneticVariant(observation)).toEqual({ flags: ['braf'], positive: true });
+  });
+
+  it('returns null when the result is unknown', () => {
+    const observation = createVariant('HGNC:6407');
+    observation.component?.push({
+      code: { coding: [ { system: LOINC_SYSTEM, code: '53037-8' } ] },
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA26333-7' } ] }
+    });
+    expect(findGeneticVariant(observation)).toBeNull();
+  });
+
+  it('returns null for unknown genes and observations without components', () => {
+    expect(findGeneticVariant(createVariant('HGNC:0', {
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA9633-4' } ] }
+    }))).toBeNull();
+    expect(findGeneticVariant({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '69548-6' } ] }
+    })).toBeNull();
+  });
+});
+
+describe('findTumorSize', () => {
+  it('converts a longest dimension value to centimeters', () => {
+    expect(findTumorSize({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '33728-7' } ] },
+      valueQuantity: { value: 42, system: 'http://unitsofmeasure.org', code: 'mm' }
+    })).toEqual(4.2);
+  });
+
+  it('uses the longest dimension component', () => {
+    expect(findTumorSize({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '21889-1' } ] },
+      component: [
+        {
+          code: { coding: [ { system: LOINC_SYSTEM, code: '33729-5' } ] },
+          valueQuantity: { value: 1, system: 'http://unitsofmeasure.org', code: '[in_i]' }
+        },
+        {
+          code: { coding: [ { system: LOINC_SYSTEM, code: '33728-7' } ] },
+          valueQuantity: { value: 3.1, system: 'http://unitsofmeasure.org', code: 'cm' }
+        }
+      ]
+    })).toEqual(3.1);
+  });
+
+  it('clamps sizes to 35 cm', () => {
+    expect(findTumorSize({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '33728-7' } ] },
+      valueQuantity: { value: 2, system: 'http://unitsofmeasure.org', code: 'm' }
+    })).toEqual(35);
+  });
+
+  it('returns null for other observations or unknown units', () => {
+    expect(findTumorSize({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '89247-1' } ] },
+      valueQuantity: { value: 2, system: 'http://unitsofmeasure.org', code: 'cm' }
+    })).toBeNull();
+    expect(findTumorSize({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '33728-7' } ] },
+      valueQuantity: { value: 2, system: 'http://unitsofmeasure.org', code: 'g' }
+    })).toBeNull();
+  });
+});
+
+describe('findPSA', () => {
+  it('finds a total PSA value', () => {
+    expect(findPSA({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '2857-1' } ] },
+      valueQuantity: { value: 6.5, system: 'http://unitsofmeasure.org', code: 'ug/L' }
+    })).toEqual(6.5);
+  });
+
+  it('clamps PSA values to 100', () => {
+    expect(findPSA({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '83112-3' } ] },
+      valueQuantity: { value: 250, system: 'http://unitsofmeasure.org', code: 'ng/mL' }
+    })).toEqual(100);
+  });
+
+  it('returns null for other observations', () => {
+    expect(findPSA({
+      resourceType: 'Observation',
+      status: 'final',
+      // Free PSA
+      code: { coding: [ { system: LOINC_SYSTEM, code: '10886-0' } ] },
+      valueQuantity: { value: 1, system: 'http://unitsofmeasure.org', code: 'ng/mL' }
+    })).toBeNull();
+  });
+});
+
+describe('findDiseaseStatusStage', () => {
+  function createStatus(code: string, valueCode: string): Observation {
+    return {
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: code } ] },
+      valueCodeableConcept: { coding: [ { system: SNOMED_CT_SYSTEM, code: valueCode } ] }
+    };
+  }
+
+  it('finds remission', () => {
+    expect(findDiseaseStatusStage(createStatus('97509-4', '550991000124107'))).toEqual('remission');
+    expect(findDiseaseStatusStage(createStatus('88040-1', '551001000124108'))).toEqual('remission');
+  });
+
+  it('finds relapse', () => {
+    expect(findDiseaseStatusStage(createStatus('97509-4', '263855007'))).toEqual('relapsed');
+  });
+
+  it('returns null for other statuses and observations', () => {
+    // Stable, worsened
+    expect(findDiseaseStatusStage(createStatus('97509-4', '359746009'))).toBeNull();
+    expect(findDiseaseStatusStage(createStatus('97509-4', '271299001'))).toBeNull();
+    expect(findDiseaseStatusStage(createStatus('89247-1', '550991000124107'))).toBeNull();
+  });
+});
+
+describe('findDiseaseStatusControlled', () => {
+  it('determines if the disease is controlled', () => {
+    const status = (valueCode: string): Observation => ({
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [ { system: LOINC_SYSTEM, code: '97509-4' } ] },
+      valueCodeableConcept: { coding: [ { system: SNOMED_CT_SYSTEM, code: valueCode } ] }
+    });
+    expect(findDiseaseStatusControlled(status('359746009'))).toBeTrue();
+    expect(findDiseaseStatusControlled(status('271299001'))).toBeFalse();
+    expect(findDiseaseStatusControlled(status('709137006'))).toBeNull();
+  });
+});
+
+describe('isBrainMetastasis', () => {
+  it('detects brain metastasis codes', () => {
+    expect(isBrainMetastasis({
+      resourceType: 'Condition',
+      subject: {},
+      code: { coding: [ { system: SNOMED_CT_SYSTEM, code: '94225005' } ] }
+    })).toBeTrue();
+  });
+
+  it('detects secondary cancer conditions with a CNS body site', () => {
+    const condition: Condition = {
+      resourceType: 'Condition',
+      meta: { profile: [ 'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-secondary-cancer-condition' ] },
+      subject: {},
+      code: { coding: [ { system: SNOMED_CT_SYSTEM, code: '128462008' } ] },
+      bodySite: [ { coding: [ { system: SNOMED_CT_SYSTEM, code: '12738006' } ] } ]
+    };
+    expect(isBrainMetastasis(condition)).toBeTrue();
+    // Without the profile, the body site isn't enough
+    delete condition.meta;
+    expect(isBrainMetastasis(condition)).toBeFalse();
+  });
+
+  it('ignores other secondary cancer conditions', () => {
+    expect(isBrainMetastasis({
+      resourceType: 'Condition',
+      meta: { profile: [ 'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-secondary-cancer-condition' ] },
+      subject: {},
+      code: { coding: [ { system: SNOMED_CT_SYSTEM, code: '94222008' } ] },
+      bodySite: [ { coding: [ { system: SNOMED_CT_SYSTEM, code: '39607008' } ] } ]
+    })).toBeFalse();
+  });
+});
+
+describe('isConditionControlled', () => {
+  it('uses the clinical status', () => {
+    const condition = (status: string): Condition => ({
+      resourceType: 'Condition',
+      subject: {},
+      clinicalStatus: { coding: [ { system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: status } ] }
+    });
+    expect(isConditionControlled(condition('recurrence'))).toBeFalse();
+    expect(isConditionControlled(condition('active'))).toBeNull();
+    expect(isConditionControlled(condition('remission'))).toBeTrue();
+    expect(isConditionControlled(condition('unknown'))).toBeNull();
+    expect(isConditionControlled({ resourceType: 'Condition', subject: {} })).toBeNull();
+  });
+});
+
+describe('findObservedMenopausalStatus', () => {
+  const observation = (code: string, valueCode: string): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [ { system: LOINC_SYSTEM, code: code } ] },
+    valueCodeableConcept: { coding: [ { system: SNOMED_CT_SYSTEM, code: valueCode } ] }
+  });
+  it('reads menopausal status observations', () => {
+    expect(findObservedMenopausalStatus(observation('42798-9', '289903006'))).toEqual('premenopausal');
+    expect(findObservedMenopausalStatus(observation('42798-9', '76498008'))).toEqual('postmenopausal');
+  });
+  it('ignores other observations', () => {
+    expect(findObservedMenopausalStatus(observation('82810-3', '76498008'))).toBeNull();
+  });
+});
+
+describe('findPregnancyStatus', () => {
+  const status = (code: string, valueCode: string): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [ { system: LOINC_SYSTEM, code: code } ] },
+    valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: valueCode } ] }
+  });
+  it('determines if the patient is pregnant', () => {
+    expect(findPregnancyStatus(status('82810-3', 'LA15173-0'))).toBeTrue();
+    expect(findPregnancyStatus(status('11449-6', 'LA26683-5'))).toBeFalse();
+  });
+  it('returns null for unknown statuses and other observations', () => {
+    expect(findPregnancyStatus(status('82810-3', 'LA4489-6'))).toBeNull();
+    expect(findPregnancyStatus(status('89247-1', 'LA15173-0'))).toBeNull();
+  });
+});
+
+describe('findBirthSex', () => {
+  it('uses the US Core birth sex extension', () => {
+    const patient = (valueCode: string): Patient => ({
+      resourceType: 'Patient',
+      gender: 'female',
+      extension: [ { url: US_CORE_BIRTH_SEX_EXTENSION_URL, valueCode: valueCode } ]
+    });
+    expect(findBirthSex(patient('M'))).toEqual('male');
+    expect(findBirthSex(patient('F'))).toEqual('female');
+    expect(findBirthSex(patient('UNK'))).toBeNull();
+    expect(findBirthSex({ resourceType: 'Patient', gender: 'female' })).toBeNull();
+  });
+});
+
+describe('findSexAssignedAtBirth', () => {
+  const observation = (code: string, system: string, valueCode: string): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [ { system: LOINC_SYSTEM, code: code } ] },
+    valueCodeableConcept: { coding: [ { system: system, code: valueCode } ] }
+  });
+  it('finds the sex assigned at birth', () => {
+    expect(findSexAssignedAtBirth(observation('76689-9', LOINC_SYSTEM, 'LA3-6'))).toEqual('female');
+    expect(findSexAssignedAtBirth(observation('76689-9', SNOMED_CT_SYSTEM, '248153007'))).toEqual('male');
+    expect(findSexAssignedAtBirth(observation('76689-9', 'http://hl7.org/fhir/administrative-gender', 'female'))).toEqual('female');
+  });
+  it('returns null for other values and observations', () => {
+    expect(findSexAssignedAtBirth(observation('76689-9', 'http://hl7.org/fhir/administrative-gender', 'other'))).toBeNull();
+    expect(findSexAssignedAtBirth(observation('82810-3', LOINC_SYSTEM, 'LA3-6'))).toBeNull();
+  });
+});
+
+describe('findMenopausalStatus', () => {
+  it('finds postmenopausal codes', () => {
+    expect(findMenopausalStatus([ { system: SNOMED_CT_SYSTEM, code: '76498008' } ])).toEqual('postmenopausal');
+    expect(findMenopausalStatus([ { system: ICD_10_SYSTEM, code: 'Z78.0' } ])).toEqual('postmenopausal');
+  });
+  it('finds premenopausal codes', () => {
+    expect(findMenopausalStatus([ { system: SNOMED_CT_SYSTEM, code: '289903006' } ])).toEqual('premenopausal');
+  });
+  it('returns null for other codes', () => {
+    expect(findMenopausalStatus([ { system: SNOMED_CT_SYSTEM, code: '77386006' } ])).toBeNull();
+    expect(findMenopausalStatus([ { } ])).toBeNull();
+    expect(findMenopausalStatus(undefined)).toBeNull();
+  });
+});
+
+describe('findTNMCategory', () => {
+  const category = (code: string, valueCoding: Coding): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [ { system: LOINC_SYSTEM, code: code } ] },
+    valueCodeableConcept: { coding: [ valueCoding ] }
+  });
+  it('finds AJCC codes', () => {
+    expect(findTNMCategory(category('21905-5', { system: CANCERSTAGING_SYSTEM, code: 'cT3' }))).toEqual({ category: 'T', value: 3, subcategory: '' });
+    expect(findTNMCategory(category('21900-6', { system: CANCERSTAGING_SYSTEM, code: '1a' }))).toEqual({ category: 'N', value: 1, subcategory: 'a' });
+  });
+  it('falls back to the display of other codes', () => {
+    expect(findTNMCategory(category('21907-1', { system: SNOMED_CT_SYSTEM, code: '0', display: 'AJCC cM1' }))).toEqual({ category: 'M', value: 1, subcategory: '' });
+  });
+  it('returns null for other observations and values', () => {
+    expect(findTNMCategory(category('21908-9', { system: CANCERSTAGING_SYSTEM, code: 'cT3' }))).toBeNull();
+    expect(findTNMCategory(category('21905-5', { system: CANCERSTAGING_SYSTEM, code: 'cN1' }))).toBeNull();
+    expect(findTNMCategory({ resourceType: 'Observation', status: 'final', code: {} })).toBeNull();
+  });
+});
+
+describe('findPerformanceStatus', () => {
+  const status = (code: string, value: Partial<Observation>): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [ { system: LOINC_SYSTEM, code: code } ] },
+    ...value
+  });
+  it('finds integer scores', () => {
+    expect(findPerformanceStatus(status('89247-1', { valueInteger: 2 }))).toEqual({ criterion: 'ecog', score: 2 });
+    expect(findPerformanceStatus(status('89243-0', { valueInteger: 70 }))).toEqual({ criterion: 'karnofsky', score: 70 });
+  });
+  it('finds ECOG answer codes', () => {
+    expect(findPerformanceStatus(status('89247-1', {
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA9622-7' } ] }
+    }))).toEqual({ criterion: 'ecog', score: 0 });
+  });
+  it('returns null for other observations and values', () => {
+    expect(findPerformanceStatus(status('89247-1', {
+      valueCodeableConcept: { coding: [ { system: LOINC_SYSTEM, code: 'LA9627-6' } ] }
+    }))).toBeNull();
+    expect(findPerformanceStatus(status('89243-0', { valueString: '70' }))).toBeNull();
+    expect(findPerformanceStatus(status('21908-9', { valueInteger: 2 }))).toBeNull();
+  });
+});
+
+describe('ecogToKarnofsky', () => {
+  it('converts scores', () => {
+    expect([0, 1, 2, 3, 4].map(ecogToKarnofsky)).toEqual([100, 80, 60, 40, 20]);
+    expect(ecogToKarnofsky(5)).toBeNull();
+  });
+});
+
+describe('karnofskyToEcog', () => {
+  it('converts scores', () => {
+    expect([100, 90, 80, 70, 60, 50, 40, 30, 20, 10].map(karnofskyToEcog)).toEqual([0, 0, 1, 1, 2, 2, 3, 3, 4, 4]);
+    expect(karnofskyToEcog(0)).toBeNull();
+    expect(karnofskyToEcog(NaN)).toBeNull();
+  });
+});
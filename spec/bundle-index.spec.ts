@@ -0,0 +1,84 @@
+import { Bundle, Condition, Observation } from 'fhir/r4';
+import { BundleIndex } from '../src/bundle-index';
+
+describe('BundleIndex', () => {
+  const condition: Condition = { resourceType: 'Condition', id: 'condition-1', subject: {} };
+  const observation: Observation = {
+    resourceType: 'Observation',
+    id: 'observation-1',
+    status: 'final',
+    code: {},
+    contained: [ { resourceType: 'Condition', id: 'contained-1', subject: {} } ]
+  };
+  const nestedObservation: Observation = { resourceType: 'Observation', id: 'observation-2', status: 'final', code: {} };
+  const bundle: Bundle = {
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: [
+      { fullUrl: 'urn:uuid:condition-uuid', resource: condition },
+      { fullUrl: 'http://www.example.com/fhir/Observation/observation-1', resource: observation },
+      {
+        resource: {
+          resourceType: 'Bundle',
+          type: 'collection',
+          entry: [ { resource: nestedObservation } ]
+        }
+      },
+      // Duplicate ID, the first one is kept
+      { resource: { resourceType: 'Condition', id: 'condition-1', subject: {} } },
+      // Bad entry
+      { }
+    ]
+  };
+  let index: BundleIndex;
+  beforeEach(() => {
+    index = new BundleIndex(bundle);
+  });
+
+  it('lists all resources, including those in nested bundles', () => {
+    expect(index.resources.length).toEqual(4);
+    expect(index.resources).toContain(nestedObservation);
+  });
+
+  it('resolves full URLs', () => {
+    expect(index.resolve('urn:uuid:condition-uuid')).toBe(condition);
+    expect(index.resolve({ reference: 'http://www.example.com/fhir/Observation/observation-1' })).toBe(observation);
+  });
+
+  it('resolves relative references', () => {
+    expect(index.resolve('Condition/condition-1')).toBe(condition);
+    expect(index.resolve('Observation/observation-2')).toBe(nestedObservation);
+  });
+
+  it('resolves absolute references by their relative part', () => {
+    expect(index.resolve('http://www.example.org/r4/Condition/condition-1')).toBe(condition);
+    expect(index.resolve('http://www.example.org/r4/Condition/condition-1/_history/2')).toBe(condition);
+  });
+
+  it('resolves contained references', () => {
+    expect(index.resolve('#contained-1', observation)).toBe(observation.contained[0]);
+    expect(index.resolve('#contained-1', condition)).toBeUndefined();
+    expect(index.resolve('#contained-1')).toBeUndefined();
+  });
+
+  it('resolves references of a given type', () => {
+    expect(index.resolveAs('urn:uuid:condition-uuid', 'Condition')).toBe(condition);
+    expect(index.resolveAs('urn:uuid:condition-uuid', 'Observation')).toBeUndefined();
+  });
+
+  it('returns undefined for unknown references', () => {
+    expect(index.resolve('Condition/unknown')).toBeUndefined();
+    expect(index.resolve({ display: 'no reference' })).toBeUndefined();
+    expect(index.resolve(undefined)).toBeUndefined();
+  });
+
+  it('gets the reference for resources', () => {
+    expect(index.referenceFor(condition)).toEqual('urn:uuid:condition-uuid');
+    expect(index.referenceFor(nestedObservation)).toEqual('Observation/observation-2');
+    expect(index.referenceFor(observation.contained[0])).toBeUndefined();
+  });
+
+  it('handles bundles with no entries', () => {
+    expect(new BundleIndex({ resourceType: 'Bundle', type: 'collection' }).resources).toEqual([]);
+  });
+});
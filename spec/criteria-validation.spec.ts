@@ -0,0 +1,73 @@
+import { AncoraCriteria } from '../src/ancora-query';
+import { validateCriteria, validateCriterion } from '../src/criteria-validation';
+
+describe('validateCriteria()', () => {
+  it('keeps valid values', () => {
+    const criteria: AncoraCriteria = { ecog: 2, karnofsky: 70, tumor_size: 3.5, psa: 4.2, tumor_stage: 0, age: 50, her2: true };
+    const result = validateCriteria(criteria);
+    expect(result.criteria).toEqual(criteria);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('never modifies the original criteria', () => {
+    const criteria: AncoraCriteria = { ecog: 40 };
+    const result = validateCriteria(criteria);
+    expect(result.criteria).not.toBe(criteria);
+    expect(criteria.ecog).toEqual(40);
+  });
+
+  it('drops scores and stages outside the range', () => {
+    const result = validateCriteria({ ecog: 40, karnofsky: 5, tumor_stage: 5 });
+    expect(result.criteria).toEqual({});
+    expect(result.warnings.map((warning) => [warning.criterion, warning.value, warning.action])).toEqual([
+      ['tumor_stage', 5, 'dropped'],
+      ['ecog', 40, 'dropped'],
+      ['karnofsky', 5, 'dropped']
+    ]);
+    expect(result.warnings[1].message).toEqual('ecog of 40 is outside 0-4, dropped');
+  });
+
+  it('clamps measurements outside the range', () => {
+    const result = validateCriteria({ age: 104, tumor_size: 40, psa: 250 });
+    expect(result.criteria).toEqual({ age: 100, tumor_size: 35, psa: 100 });
+    expect(result.warnings.map((warning) => warning.action)).toEqual(['clamped', 'clamped', 'clamped']);
+    expect(validateCriteria({ age: 0, psa: -1 }).criteria).toEqual({ age: 1, psa: 0 });
+  });
+
+  it('drops values that are not numbers', () => {
+    const result = validateCriteria({ psa: NaN, tumor_size: Infinity, ecog: '2' as unknown as number });
+    expect(result.criteria).toEqual({});
+    expect(result.warnings.length).toEqual(3);
+    expect(result.warnings[0].message).toEqual('tumor_size of Infinity is not a number');
+  });
+
+  it('drops scores that are not whole numbers', () => {
+    expect(validateCriteria({ ecog: 1.5, tumor_stage: 2.5 }).criteria).toEqual({});
+  });
+
+  it('uses the given ranges', () => {
+    const ranges = {
+      age: { min: 18, max: 100, policy: 'drop' as const },
+      tumor_size: { min: 0, max: 35, policy: 'clamp' as const },
+      psa: { min: 0, max: 100, policy: 'clamp' as const },
+      tumor_stage: { min: 0, max: 4, policy: 'drop' as const },
+      ecog: { min: 0, max: 4, policy: 'clamp' as const },
+      karnofsky: { min: 10, max: 100, policy: 'drop' as const }
+    };
+    expect(validateCriteria({ age: 12, ecog: 40 }, ranges).criteria).toEqual({ ecog: 4 });
+  });
+});
+
+describe('validateCriterion()', () => {
+  it('validates a single value', () => {
+    expect(validateCriterion('ecog', 2)).toEqual({ value: 2, warning: null });
+    expect(validateCriterion('ecog', 40).value).toBeUndefined();
+    expect(validateCriterion('ecog', 40).warning?.action).toEqual('dropped');
+    expect(validateCriterion('psa', 250).value).toEqual(100);
+    expect(validateCriterion('psa', 250).warning?.action).toEqual('clamped');
+  });
+
+  it('accepts any value for criteria without a range', () => {
+    expect(validateCriterion('her2', true)).toEqual({ value: true, warning: null });
+  });
+});
@@ -0,0 +1,58 @@
+import path from 'node:path';
+import { distanceBetween, PostalCodeGeocoder } from '../src/geocoder';
+
+describe('PostalCodeGeocoder', () => {
+  let geocoder: PostalCodeGeocoder;
+  beforeAll(() => {
+    geocoder = PostalCodeGeocoder.load(path.resolve(__dirname, '../../spec/data/postal-codes.csv'));
+  });
+
+  it('loads supported countries with valid coordinates', () => {
+    expect(geocoder.size).toEqual(6);
+  });
+
+  it('geocodes postal codes', () => {
+    expect(geocoder.geocode('US', '01730')).toEqual({ lat: 42.4906, long: -71.276 });
+    expect(geocoder.geocode('US', '01730-1234')).toEqual({ lat: 42.4906, long: -71.276 });
+    expect(geocoder.geocode('CH', 'CH-8001')).toEqual({ lat: 47.3717, long: 8.5423 });
+    expect(geocoder.geocode('UK', 'sw1a1aa')).toEqual({ lat: 51.501, long: -0.1416 });
+  });
+
+  it('falls back to the outward code for UK postcodes', () => {
+    expect(geocoder.geocode('UK', 'SW1A 2AA')).toEqual({ lat: 51.502, long: -0.139 });
+  });
+
+  it('returns null for unknown and invalid postal codes', () => {
+    expect(geocoder.geocode('US', '99999')).toBeNull();
+    expect(geocoder.geocode('ES', '01730')).toBeNull();
+    expect(geocoder.geocode('US', 'invalid')).toBeNull();
+  });
+
+  it('normalizes the postal codes in the table', () => {
+    const normalized = new PostalCodeGeocoder();
+    normalized.parse('US,01730-1234,42.4906,-71.2760\nUK,SW1A1AA,51.5010,-0.1416\nUS,ABCDE,42.0,-71.0\n');
+    expect(normalized.size).toEqual(2);
+    expect(normalized.geocode('US', '01730')).toEqual({ lat: 42.4906, long: -71.276 });
+    expect(normalized.geocode('UK', 'SW1A 1AA')).toEqual({ lat: 51.501, long: -0.1416 });
+  });
+
+  it('parses GeoNames tables', () => {
+    const geoNames = new PostalCodeGeocoder();
+    geoNames.parse('US\t02108\tBoston\tMassachusetts\tMA\tSuffolk\t025\t\t\t42.3576\t-71.0684\t4\n');
+    expect(geoNames.geocode('US', '02108')).toEqual({ lat: 42.3576, long: -71.0684 });
+  });
+});
+
+describe('distanceBetween()', () => {
+  const bedford = { lat: 42.4906, long: -71.276 };
+  const boston = { lat: 42.3576, long: -71.0684 };
+  it('calculates the distance in miles by default', () => {
+    expect(distanceBetween(bedford, boston)).toBeCloseTo(14.02, 1);
+  });
+  it('calculates the distance in kilometers', () => {
+    expect(distanceBetween(bedford, boston, 'KM')).toBeCloseTo(22.56, 1);
+  });
+  it('returns 0 for the same location', () => {
+    expect(distanceBetween(boston, boston)).toEqual(0);
+  });
+});
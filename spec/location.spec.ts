@@ -0,0 +1,68 @@
+import { normalizeCountry, normalizePostalCode, normalizeRadiusUnit } from '../src/location';
+
+describe('normalizeCountry()', () => {
+  it('normalizes ISO codes', () => {
+    expect(normalizeCountry('us')).toEqual('US');
+    expect(normalizeCountry('GB')).toEqual('UK');
+    expect(normalizeCountry('ESP')).toEqual('ES');
+    expect(normalizeCountry('CHE')).toEqual('CH');
+  });
+
+  it('normalizes country names', () => {
+    expect(normalizeCountry('United States of America')).toEqual('US');
+    expect(normalizeCountry(' united  kingdom ')).toEqual('UK');
+    expect(normalizeCountry('England')).toEqual('UK');
+    expect(normalizeCountry('España')).toEqual('ES');
+    expect(normalizeCountry('Schweiz')).toEqual('CH');
+  });
+
+  it('returns null for unsupported countries', () => {
+    expect(normalizeCountry('FR')).toBeNull();
+    expect(normalizeCountry('Canada')).toBeNull();
+    expect(normalizeCountry(undefined)).toBeNull();
+  });
+});
+
+describe('normalizePostalCode()', () => {
+  it('validates US ZIP codes', () => {
+    expect(normalizePostalCode('US', '01730')).toEqual('01730');
+    expect(normalizePostalCode('US', '01730-1234')).toEqual('01730');
+    expect(normalizePostalCode('US', '1730')).toBeNull();
+    expect(normalizePostalCode('US', 'SW1A 1AA')).toBeNull();
+  });
+
+  it('validates UK postcodes', () => {
+    expect(normalizePostalCode('UK', 'SW1A 1AA')).toEqual('SW1A 1AA');
+    expect(normalizePostalCode('UK', 'm11ae')).toEqual('M1 1AE');
+    expect(normalizePostalCode('UK', '01730')).toBeNull();
+  });
+
+  it('validates Spanish postal codes', () => {
+    expect(normalizePostalCode('ES', '28013')).toEqual('28013');
+    expect(normalizePostalCode('ES', '53013')).toBeNull();
+  });
+
+  it('validates Swiss postal codes', () => {
+    expect(normalizePostalCode('CH', '8001')).toEqual('8001');
+    expect(normalizePostalCode('CH', 'CH-8001')).toEqual('8001');
+    expect(normalizePostalCode('CH', '80010')).toBeNull();
+  });
+
+  it('returns null with no postal code', () => {
+    expect(normalizePostalCode('US', undefined)).toBeNull();
+  });
+});
+
+describe('normalizeRadiusUnit()', () => {
+  it('normalizes units', () => {
+    expect(normalizeRadiusUnit('km')).toEqual('KM');
+    expect(normalizeRadiusUnit('Kilometers')).toEqual('KM');
+    expect(normalizeRadiusUnit('MI')).toEqual('MI');
+    expect(normalizeRadiusUnit('miles')).toEqual('MI');
+  });
+
+  it('returns null for unsupported units', () => {
+    expect(normalizeRadiusUnit('furlongs')).toBeNull();
+    expect(normalizeRadiusUnit(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { Observation, ObservationComponent } from 'fhir/r4';
+import { findMSIStatus } from '../src/mismatch-repair';
+
+describe('findMSIStatus()', () => {
+  const observation = (fields: Partial<Observation>): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { text: 'MMR panel' },
+    ...fields
+  });
+  const protein = (name: string, result: string): ObservationComponent => ({
+    code: { text: `${name} protein expression by immunohistochemistry` },
+    valueString: result
+  });
+
+  it('reads MSI status values', () => {
+    const msi = (display: string) => observation({
+      code: { coding: [ { system: 'http://loinc.org', code: '81695-9' } ] },
+      valueCodeableConcept: { coding: [ { system: 'http://example.com', code: 'x', display: display } ] }
+    });
+    expect(findMSIStatus(msi('MSI-H'))).toBeTrue();
+    expect(findMSIStatus(msi('Microsatellite instability high'))).toBeTrue();
+    expect(findMSIStatus(msi('MSS'))).toBeFalse();
+    expect(findMSIStatus(msi('MSI-L'))).toBeFalse();
+    expect(findMSIStatus(msi('Indeterminate'))).toBeNull();
+  });
+
+  it('treats the loss of any MMR protein in a panel as MSI-H', () => {
+    expect(findMSIStatus(observation({
+      component: [ protein('MLH1', 'Intact'), protein('MSH2', 'Intact'), protein('MSH6', 'Intact'), protein('PMS2', 'Loss of expression') ]
+    }))).toBeTrue();
+  });
+
+  it('treats a panel with every MMR protein retained as MSS', () => {
+    expect(findMSIStatus(observation({
+      component: [ protein('MLH1', 'Retained'), protein('MSH2', 'Intact'), protein('MSH6', 'Intact'), protein('PMS2', 'Intact') ]
+    }))).toBeFalse();
+    // Not all proteins reported
+    expect(findMSIStatus(observation({ component: [ protein('MLH1', 'Retained') ] }))).toBeNull();
+  });
+
+  it('reads separate MMR protein observations', () => {
+    expect(findMSIStatus(observation({
+      code: { coding: [ { system: 'http://www.genenames.org/geneId', code: 'HGNC:7127' } ] },
+      method: { coding: [ { system: 'http://snomed.info/sct', code: '117617002' } ] },
+      valueCodeableConcept: { coding: [ { system: 'http://snomed.info/sct', code: '2667000' } ] }
+    }))).toBeTrue();
+    expect(findMSIStatus(observation({ code: { text: 'MSH6 IHC' }, valueString: 'Not expressed' }))).toBeTrue();
+    expect(findMSIStatus(observation({ code: { text: 'MSH6 IHC' }, valueString: 'Expressed' }))).toBeNull();
+  });
+
+  it('reads components of IHC panels named by the protein alone', () => {
+    expect(findMSIStatus(observation({
+      code: { text: 'Mismatch repair immunohistochemistry' },
+      component: [ { code: { text: 'MLH1' }, valueString: 'Negative' } ]
+    }))).toBeTrue();
+  });
+
+  it('only reads results by IHC as MMR protein results', () => {
+    // The HGNC code alone identifies the gene, not the test
+    expect(findMSIStatus(observation({
+      code: { coding: [ { system: 'http://www.genenames.org/geneId', code: 'HGNC:7127' } ] },
+      valueString: 'Negative'
+    }))).toBeNull();
+    expect(findMSIStatus(observation({ code: { text: 'MLH1 gene mutations' }, valueString: 'Negative' }))).toBeNull();
+    expect(findMSIStatus(observation({
+      code: { text: 'MMR protein immunohistochemistry' },
+      component: [ { code: { text: 'MLH1 promoter methylation' }, valueString: 'Negative' } ]
+    }))).toBeNull();
+  });
+
+  it('reads MSI status components', () => {
+    expect(findMSIStatus(observation({
+      component: [ { code: { text: 'Microsatellite instability' }, valueString: 'MSI-High' } ]
+    }))).toBeTrue();
+  });
+
+  it('ignores other observations', () => {
+    expect(findMSIStatus(observation({ code: { text: 'HER2' }, valueString: 'Negative' }))).toBeNull();
+  });
+});
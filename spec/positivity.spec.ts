@@ -0,0 +1,60 @@
+import { Observation } from 'fhir/r4';
+import {
+  createPositivityResolver,
+  OBSERVATION_INTERPRETATION_SYSTEM,
+  resolveInterpretation,
+  resolvePositivity,
+  resolveValueCode,
+  resolveValueString
+} from '../src/positivity';
+
+describe('positivity resolvers', () => {
+  const observation = (fields: Partial<Observation>): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [ { system: 'http://loinc.org', code: '48676-1' } ] },
+    ...fields
+  });
+  const valueCode = (system: string, code: string) =>
+    observation({ valueCodeableConcept: { coding: [ { system: system, code: code } ] } });
+  const interpretation = (code: string) =>
+    observation({ interpretation: [ { coding: [ { system: OBSERVATION_INTERPRETATION_SYSTEM, code: code } ] } ] });
+
+  it('resolves SNOMED CT and LOINC values', () => {
+    expect(resolveValueCode(valueCode('http://snomed.info/sct', '10828004'))).toBeTrue();
+    expect(resolveValueCode(valueCode('http://snomed.info/sct', '260385009'))).toBeFalse();
+    expect(resolveValueCode(valueCode('http://loinc.org', 'LA6576-8'))).toBeTrue();
+    expect(resolveValueCode(valueCode('urn:oid:2.16.840.1.113883.6.1', 'LA6577-6'))).toBeFalse();
+    expect(resolveValueCode(valueCode('http://loinc.org', 'LA11883-8'))).toBeFalse();
+    expect(resolveValueCode(valueCode('http://loinc.org', 'LA4489-6'))).toBeNull();
+    expect(resolveValueCode(observation({}))).toBeNull();
+  });
+
+  it('resolves textual values', () => {
+    expect(resolveValueString(observation({ valueString: 'Positive' }))).toBeTrue();
+    expect(resolveValueString(observation({ valueString: ' NOT  detected ' }))).toBeFalse();
+    expect(resolveValueString(observation({ valueString: 'Equivocal' }))).toBeNull();
+    expect(resolveValueString(observation({ valueInteger: 1 }))).toBeNull();
+  });
+
+  it('resolves interpretations', () => {
+    expect(resolveInterpretation(interpretation('POS'))).toBeTrue();
+    expect(resolveInterpretation(interpretation('DET'))).toBeTrue();
+    expect(resolveInterpretation(interpretation('NEG'))).toBeFalse();
+    expect(resolveInterpretation(interpretation('ND'))).toBeFalse();
+    expect(resolveInterpretation(interpretation('H'))).toBeNull();
+    expect(resolveInterpretation(observation({ interpretation: [ { coding: [ { system: 'http://example.com', code: 'POS' } ] } ] }))).toBeNull();
+  });
+
+  it('prefers the value over the interpretation', () => {
+    expect(resolvePositivity({ ...interpretation('POS'), valueString: 'Negative' })).toBeFalse();
+    expect(resolvePositivity(interpretation('POS'))).toBeTrue();
+  });
+
+  it('uses the given resolvers in order', () => {
+    const resolver = createPositivityResolver([ () => null, resolveInterpretation, () => true ]);
+    expect(resolver(interpretation('NEG'))).toBeFalse();
+    expect(resolver(observation({}))).toBeTrue();
+    expect(createPositivityResolver([])(interpretation('NEG'))).toBeNull();
+  });
+});
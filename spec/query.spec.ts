@@ -3,19 +3,42 @@ import {
   ResearchStudy,
   SearchSet,
 } from "clinical-trial-matching-service";
-import { Bundle, BundleEntry, FhirResource, Patient } from 'fhir/r4';
+import { Bundle, BundleEntry, FhirResource, Medication, MedicationAdministration, MedicationRequest, MedicationStatement, Patient } from 'fhir/r4';
 import createAncoraAiLookup, {
+  findResourceDate,
+  queryOptionsFromConfiguration,
+  DEFAULT_MENOPAUSAL_AGE_FALLBACK,
   convertResponseToSearchSet,
+  convertResponsesToSearchSet,
+  matchesTrialFilter,
+  parseListParameter,
+  DISEASE_QUERY_EXTENSION_URL,
+  QUERY_PROVENANCE_EXTENSION_URL,
+  addProvenanceExtensions,
   isAncoraTrial,
   isAncoraResponse,
   isQueryErrorResponse,
   AncoraAPIQuery,
+  AncoraAPIQueryOptions,
   AncoraResponse,
   AncoraTrial,
 } from "../src/query";
 import nock from "nock";
 import fs from 'fs';
 import path from 'path';
+import { PostalCodeGeocoder } from '../src/geocoder';
+import { SCORING_GUIDELINES } from '../src/receptor-scoring';
+
+/**
+ * Creates a query for a collection bundle containing the given entries.
+ */
+function bundleOf(entries: BundleEntry[], options?: AncoraAPIQueryOptions): AncoraAPIQuery {
+  return new AncoraAPIQuery({
+    resourceType: "Bundle",
+    type: "collection",
+    entry: entries
+  }, undefined, options);
+}
 
 const exampleTrial: AncoraTrial = {
   "trial_id": "NCT00000000",
@@ -93,6 +116,42 @@ describe("createClinicalTrialLookup()", () => {
   });
 });
 
+describe("queryOptionsFromConfiguration()", () => {
+  it("uses defaults", () => {
+    expect(queryOptionsFromConfiguration({})).toEqual({});
+  });
+  it("disables the menopausal age fallback", () => {
+    expect(queryOptionsFromConfiguration({ menopausal_age_fallback: "false" })).toEqual({ menopausalAgeFallback: false });
+  });
+  it("loads the postal code file", () => {
+    const options = queryOptionsFromConfiguration({
+      postal_code_file: path.resolve(__dirname, "../../spec/data/postal-codes.csv")
+    });
+    expect(options.geocoder?.geocode("US", "02108")).toEqual({ lat: 42.3576, long: -71.0684 });
+  });
+  it("sets the status policy", () => {
+    expect(queryOptionsFromConfiguration({ preliminary_results: "false", exclude_inactive_diseases: "true" })).toEqual({
+      includePreliminaryResults: false,
+      excludeInactiveDiseases: true
+    });
+  });
+  it("uses the gender for the natal sex", () => {
+    expect(queryOptionsFromConfiguration({ natal_sex_from_gender: "true" })).toEqual({ natalSexFromGender: true });
+  });
+  it("sets the ASCO/CAP guideline version", () => {
+    expect(queryOptionsFromConfiguration({ asco_cap_guideline: "2013" }).scoringGuideline).toBe(SCORING_GUIDELINES["2013"]);
+    expect(() => queryOptionsFromConfiguration({ asco_cap_guideline: "1999" })).toThrowError(/1999/);
+  });
+  it("sets the menopausal age fallback ages", () => {
+    expect(queryOptionsFromConfiguration({ premenopausal_below_age: "40" })).toEqual({
+      menopausalAgeFallback: {
+        premenopausalBelow: 40,
+        postmenopausalFrom: DEFAULT_MENOPAUSAL_AGE_FALLBACK.postmenopausalFrom
+      }
+    });
+  });
+});
+
 describe("isAncoraTrial()", () => {
   it("returns false for non-trial objects", () => {
     expect(isAncoraTrial(null)).toBeFalse();
@@ -182,6 +241,10 @@ describe("APIQuery", () => {
     expect(query._travelRadius).toEqual(25);
     expect(query._phase).toEqual("phase-1");
     expect(query._recruitmentStatus).toEqual("approved");
+    expect(query.toTrialFilter()).toEqual({
+      phases: new Set(["phase-1"]),
+      recruitmentStatuses: new Set(["approved"])
+    });
   });
 
   it("maps conditions properly", () => {
@@ -240,6 +303,150 @@ describe("APIQuery", () => {
     expect(query.typeOfDisease).toEqual("pancreatic_cancer");
   });
 
+  it("keeps every type of disease found", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Condition",
+            subject: {},
+            code: { coding: [ { system: "http://snomed.info/sct", code: "326072005" } ] },
+          },
+        },
+        {
+          resource: {
+            resourceType: "Condition",
+            subject: {},
+            code: { coding: [ { system: "http://snomed.info/sct", code: "363406005" } ] },
+          },
+        },
+      ],
+    });
+    expect(query.typeOfDisease).toEqual("colorectal_cancer");
+    const queries = query.toQueries();
+    expect(Array.from(queries.keys())).toEqual(["pancreatic_cancer", "colorectal_cancer"]);
+    expect(queries.get("pancreatic_cancer")?.type_of_disease).toEqual("pancreatic_cancer");
+  });
+
+  it("keeps disease-specific criteria to the queries they apply to", () => {
+    const condition = (code: string): BundleEntry => ({
+      resource: { resourceType: "Condition", subject: {}, code: { coding: [ { system: "http://snomed.info/sct", code: code } ] } }
+    });
+    const tnm = (code: string, value: string): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: code } ] },
+        valueCodeableConcept: { coding: [ { system: "http://cancerstaging.org", code: value } ] }
+      }
+    });
+    const query = bundleOf([
+      condition("109989006"),
+      condition("326072005"),
+      condition("363406005"),
+      tnm("21905-5", "cT2"),
+      tnm("21906-3", "cN1"),
+      {
+        resource: {
+          resourceType: "MedicationStatement",
+          status: "active",
+          subject: {},
+          meta: { profile: [ "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-cancer-related-medication-statement" ] },
+          medicationCodeableConcept: { coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "358258" } ] }
+        }
+      }
+    ]);
+    expect(query.typeOfDisease).toEqual("colorectal_cancer");
+    const queries = query.toQueries();
+    expect(queries.get("colorectal_cancer")?.criterions.tumor_stage).toEqual(3);
+    expect(queries.get("pancreatic_cancer")?.criterions.tumor_stage).toEqual(2);
+    expect(queries.get("multiple_myeloma")?.criterions.in_treatment).toBeTrue();
+    expect(queries.get("colorectal_cancer")?.criterions.in_treatment).toBeUndefined();
+    expect(queries.get("pancreatic_cancer")?.criterions.in_treatment).toBeUndefined();
+  });
+
+  it("generates a single query from the default type of disease", () => {
+    const query = new AncoraAPIQuery({ resourceType: "Bundle", type: "collection", entry: [] }, "breast_cancer");
+    expect(Array.from(query.toQueries().keys())).toEqual(["breast_cancer"]);
+  });
+
+  describe("determines the location", () => {
+    const parameters = (...params: [string, string][]): BundleEntry => ({
+      resource: {
+        resourceType: "Parameters",
+        parameter: params.map(([name, value]) => ({ name: name, valueString: value }))
+      }
+    });
+    const patient = (country: string): BundleEntry => ({
+      resource: { resourceType: "Patient", address: [ { use: "work", country: "US" }, { use: "home", country: country } ] }
+    });
+    it("defaults to the US", () => {
+      const query = bundleOf([parameters(["zipCode", "01730"])]).toQuery("breast_cancer");
+      expect(query.country).toEqual("US");
+      expect(query.zip_code).toEqual("01730");
+      expect(query.radius).toEqual(100);
+      expect(query.radius_unit).toEqual("MI");
+    });
+
+    it("uses the country parameter", () => {
+      const query = bundleOf([parameters(["country", "United Kingdom"], ["zipCode", "sw1a1aa"]), patient("ES")]).toQuery("breast_cancer");
+      expect(query.country).toEqual("UK");
+      expect(query.zip_code).toEqual("SW1A 1AA");
+    });
+
+    it("uses the patient's home address", () => {
+      expect(bundleOf([patient("Switzerland")]).toQuery("breast_cancer").country).toEqual("CH");
+      // Unsupported countries fall back to the default
+      expect(bundleOf([patient("France")]).toQuery("breast_cancer").country).toEqual("US");
+    });
+
+    it("ignores postal codes that are invalid for the country", () => {
+      const query = bundleOf([parameters(["country", "ES"], ["zipCode", "01730-1234"])]).toQuery("breast_cancer");
+      expect(query.country).toEqual("ES");
+      expect(query.zip_code).toBeUndefined();
+    });
+
+    it("uses the patient's postal code without a zipCode parameter", () => {
+      const query = bundleOf([{
+        resource: { resourceType: "Patient", address: [ { use: "home", country: "CH", postalCode: "8001" } ] }
+      }]).toQuery("breast_cancer");
+      expect(query.country).toEqual("CH");
+      expect(query.zip_code).toEqual("8001");
+      expect(query.location).toBeUndefined();
+    });
+
+    it("geocodes the postal code", () => {
+      const geocoder = new PostalCodeGeocoder();
+      geocoder.add("US", "01730", { lat: 42.4906, long: -71.276 });
+      const query = new AncoraAPIQuery({
+        resourceType: "Bundle",
+        type: "collection",
+        entry: [
+          parameters(["zipCode", "01730"])
+        ]
+      }, "breast_cancer", { geocoder: geocoder }).toQuery();
+      expect(query.zip_code).toEqual("01730");
+      expect(query.location).toEqual({ lat: 42.4906, long: -71.276 });
+    });
+
+    it("uses the radius unit parameter", () => {
+      let query = bundleOf([parameters(["radiusUnit", "km"], ["travelRadius", "50"])]).toQuery("breast_cancer");
+      expect(query.radius).toEqual(50);
+      expect(query.radius_unit).toEqual("KM");
+      query = bundleOf([parameters(["radiusUnit", "km"])]).toQuery("breast_cancer");
+      expect(query.radius).toEqual(160);
+      expect(query.radius_unit).toEqual("KM");
+      expect(bundleOf([parameters(["radiusUnit", "parsecs"])]).toQuery("breast_cancer").radius_unit).toEqual("MI");
+    });
+
+    it("ignores invalid travel radiuses", () => {
+      expect(bundleOf([parameters(["travelRadius", "far"])]).toQuery("breast_cancer").radius).toEqual(100);
+      expect(bundleOf([parameters(["travelRadius", "-5"])]).toQuery("breast_cancer").radius).toEqual(100);
+    });
+  });
+
   it("converts the query to a string", () => {
     expect(
       new AncoraAPIQuery({
@@ -278,156 +485,1296 @@ describe("APIQuery", () => {
     );
   });
 
-  it("parses Ecog scores", () => {
-    const query = new AncoraAPIQuery({
-      resourceType: "Bundle",
-      type: "collection",
-      entry: [
+  it("parses Ecog scores", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Observation",
+            subject: {},
+            status: "final",
+            code: {
+              coding: [
+                {
+                  system: "http://loinc.org",
+                  code: "89247-1",
+                },
+              ],
+            },
+            valueInteger: 2
+          },
+        },
+      ]
+    }, "breast_cancer");
+    expect(query._criterions.ecog).toEqual(2);
+    // Karnofsky is converted from the Ecog score
+    expect(query._criterions.karnofsky).toEqual(60);
+    expect(query.derivedCriteria).toEqual(new Set(["karnofsky"]));
+  });
+
+  it("parses Ecog answer codes", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Observation",
+            status: "final",
+            code: { coding: [ { system: "http://loinc.org", code: "89247-1" } ] },
+            valueCodeableConcept: { coding: [ { system: "http://loinc.org", code: "LA9623-5" } ] }
+          },
+        },
+      ]
+    }, "breast_cancer");
+    expect(query._criterions.ecog).toEqual(1);
+  });
+
+  it('parses histology morphology values', () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          fullUrl: "urn:uuid:conditionId-1",
+          resource: {
+            "resourceType": "Condition",
+            "id": "conditionId-1",
+            "meta": {
+              "profile": [
+                "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-primary-cancer-condition"
+              ]
+            },
+            "extension": [
+              {
+                "url": "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-histology-morphology-behavior",
+                "valueCodeableConcept": {
+                  "coding": [
+                    {
+                      "system": "http://snomed.info/sct",
+                      "code": "254626006"
+                    }
+                  ]
+                }
+              }
+            ],
+            "code": {
+              "coding": [
+                {
+                  "system": "http://snomed.info/sct",
+                  "code": "25050002"
+                }
+              ]
+            },
+            "subject": {
+              "reference": "urn:uuid:TestPatient",
+              "type": "Patient"
+            }
+          }
+        }
+      ]
+    });
+    expect(query._criterions.lung_adenocarcinoma).toBe(true);
+  });
+
+  it("parses Karnofsky scores", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Observation",
+            subject: {},
+            status: "final",
+            code: {
+              coding: [
+                {
+                  system: "http://loinc.org",
+                  code: "89243-0",
+                },
+              ],
+            },
+            valueInteger: 80
+          },
+        },
+      ]
+    }, "breast_cancer");
+    expect(query._criterions.karnofsky).toEqual(80);
+    // Ecog is converted from the Karnofsky score
+    expect(query._criterions.ecog).toEqual(1);
+    expect(query.derivedCriteria).toEqual(new Set(["ecog"]));
+  });
+
+  it("parses positive biomarkers", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          "resource": {
+            "resourceType": "Observation",
+            "status": "final",
+            "subject": {
+              "reference": "urn:uuid:Ob4VwDGaXWUMXbJOr7nMN",
+              "type": "Patient"
+            },
+            "valueCodeableConcept": {
+              "coding": [
+                {
+                  "code": "10828004",
+                  "display": "Positive (qualifier value)",
+                  "system": "http://snomed.info/sct"
+                }
+              ]
+            },
+            "meta": {
+              "profile": [
+                "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-tumor-marker"
+              ]
+            },
+            "code": {
+              "coding": [
+                {
+                  "code": "50995-0",
+                  "display": "BRCA1+BRCA2 gene targeted mutation analysis in Blood or Tissue by Molecular genetics method",
+                  "system": "http://loinc.org"
+                }
+              ]
+            },
+            "category": [
+              {
+                "coding": [
+                  {
+                    "system": "http://terminology.hl7.org/CodeSystem/observation-category",
+                    "code": "laboratory"
+                  }
+                ]
+              }
+            ]
+          }
+        }
+      ]
+    });
+    expect(query._criterions.brca1).toBe(true);
+  });
+
+  it("parses genetic variants", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Observation",
+            status: "final",
+            meta: {
+              profile: [
+                "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-cancer-genetic-variant"
+              ]
+            },
+            code: {
+              coding: [ { system: "http://loinc.org", code: "69548-6" } ]
+            },
+            valueCodeableConcept: {
+              coding: [ { system: "http://loinc.org", code: "LA9633-4", display: "Present" } ]
+            },
+            component: [
+              {
+                code: { coding: [ { system: "http://loinc.org", code: "48018-6" } ] },
+                valueCodeableConcept: {
+                  coding: [ { system: "http://www.genenames.org/geneId", code: "HGNC:427", display: "ALK" } ]
+                }
+              }
+            ]
+          }
+        }
+      ]
+    });
+    expect(query._criterions.alk).toBe(true);
+  });
+
+  it("parses tumor sizes", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Observation",
+            status: "final",
+            meta: {
+              profile: [
+                "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-tumor-size"
+              ]
+            },
+            code: {
+              coding: [ { system: "http://loinc.org", code: "21889-1" } ]
+            },
+            component: [
+              {
+                code: { coding: [ { system: "http://loinc.org", code: "33728-7" } ] },
+                valueQuantity: { value: 18, unit: "mm", system: "http://unitsofmeasure.org", code: "mm" }
+              }
+            ]
+          }
+        }
+      ]
+    });
+    expect(query._criterions.tumor_size).toEqual(1.8);
+  });
+
+  it("uses the most recent PSA result", () => {
+    const psaResult = (value: number, effectiveDateTime?: string): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: "2857-1" } ] },
+        valueQuantity: { value: value, system: "http://unitsofmeasure.org", code: "ng/mL" },
+        effectiveDateTime: effectiveDateTime
+      }
+    });
+    let query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        psaResult(8.1, "2023-03-01"),
+        psaResult(4.3, "2022-11-15"),
+        psaResult(12, undefined)
+      ]
+    });
+    expect(query._criterions.psa).toEqual(8.1);
+    query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        psaResult(12, undefined),
+        psaResult(4.3, "2022-11-15")
+      ]
+    });
+    expect(query._criterions.psa).toEqual(4.3);
+  });
+
+  describe("resolves conflicting values", () => {
+    const ecog = (value: number, effectiveDateTime?: string): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: "89247-1" } ] },
+        valueInteger: value,
+        effectiveDateTime: effectiveDateTime
+      }
+    });
+    const her2 = (positive: boolean, issued?: string): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: "51981-9" } ] },
+        valueCodeableConcept: {
+          coding: [ { system: "http://snomed.info/sct", code: positive ? "10828004" : "260385009" } ]
+        },
+        issued: issued
+      }
+    });
+    it("uses the most recent value regardless of order", () => {
+      expect(bundleOf([ecog(1, "2023-05-01"), ecog(3, "2022-01-01")])._criterions.ecog).toEqual(1);
+      expect(bundleOf([ecog(3, "2022-01-01"), ecog(1, "2023-05-01")])._criterions.ecog).toEqual(1);
+      expect(bundleOf([her2(true, "2022-01-01T00:00:00Z"), her2(false, "2023-01-01T00:00:00Z")])._criterions.her2).toBeFalse();
+      expect(bundleOf([her2(false, "2023-01-01T00:00:00Z"), her2(true, "2022-01-01T00:00:00Z")])._criterions.her2).toBeFalse();
+    });
+
+    it("prefers dated values over undated ones", () => {
+      expect(bundleOf([ecog(2, "2020-01-01"), ecog(4)])._criterions.ecog).toEqual(2);
+      expect(bundleOf([ecog(4), ecog(2, "2020-01-01")])._criterions.ecog).toEqual(2);
+    });
+
+    it("breaks ties deterministically", () => {
+      expect(bundleOf([ecog(2), ecog(1)])._criterions.ecog).toEqual(2);
+      expect(bundleOf([ecog(1), ecog(2)])._criterions.ecog).toEqual(2);
+      expect(bundleOf([her2(false), her2(true)])._criterions.her2).toBeTrue();
+      expect(bundleOf([her2(true), her2(false)])._criterions.her2).toBeTrue();
+    });
+
+    it("drops invalid values before resolving conflicts", () => {
+      for (const entries of [[ecog(2, "2020-01-01"), ecog(40, "2023-01-01")], [ecog(40, "2023-01-01"), ecog(2, "2020-01-01")]]) {
+        const query = bundleOf(entries);
+        expect(query._criterions.ecog).toEqual(2);
+        expect(query._criterions.karnofsky).toEqual(60);
+        expect(query.derivedCriteria.has("karnofsky")).toBeTrue();
+        expect(query.toQuery("breast_cancer").criterions.ecog).toEqual(2);
+        expect(query.validationWarnings.map((warning) => warning.value)).toEqual([40]);
+      }
+    });
+
+    it("keeps the newest date for repeated values", () => {
+      const entries = [ecog(1, "2021-01-01"), ecog(2, "2022-01-01"), ecog(1, "2023-01-01")];
+      expect(bundleOf([...entries])._criterions.ecog).toEqual(1);
+      expect(bundleOf([...entries.reverse()])._criterions.ecog).toEqual(1);
+    });
+  });
+
+  it("validates the criteria sent", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Observation",
+            status: "final",
+            code: { coding: [ { system: "http://loinc.org", code: "89247-1" } ] },
+            valueInteger: 40
+          }
+        }
+      ]
+    }, "breast_cancer");
+    expect(query.toQuery().criterions.ecog).toBeUndefined();
+    expect(query.validationWarnings.map((warning) => warning.criterion)).toEqual(["ecog"]);
+  });
+
+  describe("respects statuses", () => {
+    const condition = (verificationStatus?: string, clinicalStatus?: string): BundleEntry => ({
+      resource: {
+        resourceType: "Condition",
+        subject: {},
+        code: { coding: [ { system: "http://snomed.info/sct", code: "254837009" } ] },
+        verificationStatus: verificationStatus ? {
+          coding: [ { system: "http://terminology.hl7.org/CodeSystem/condition-ver-status", code: verificationStatus } ]
+        } : undefined,
+        clinicalStatus: clinicalStatus ? {
+          coding: [ { system: "http://terminology.hl7.org/CodeSystem/condition-clinical", code: clinicalStatus } ]
+        } : undefined
+      }
+    });
+    const her2 = (status: "final" | "preliminary" | "cancelled" | "entered-in-error"): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: status,
+        code: { coding: [ { system: "http://loinc.org", code: "51981-9" } ] },
+        valueCodeableConcept: { coding: [ { system: "http://snomed.info/sct", code: "10828004" } ] }
+      }
+    });
+    it("ignores refuted conditions and conditions entered in error", () => {
+      expect(bundleOf([ condition("confirmed") ]).typeOfDisease).toEqual("breast_cancer");
+      expect(bundleOf([ condition("refuted") ]).typeOfDisease).toBeNull();
+      expect(bundleOf([ condition("entered-in-error") ]).typeOfDisease).toBeNull();
+    });
+
+    it("optionally ignores inactive conditions when detecting the disease", () => {
+      expect(bundleOf([ condition(undefined, "resolved") ]).typeOfDisease).toEqual("breast_cancer");
+      const options = { excludeInactiveDiseases: true };
+      expect(bundleOf([ condition(undefined, "resolved") ], options).typeOfDisease).toBeNull();
+      expect(bundleOf([ condition(undefined, "inactive") ], options).typeOfDisease).toBeNull();
+      expect(bundleOf([ condition(undefined, "remission") ], options).typeOfDisease).toEqual("breast_cancer");
+      expect(bundleOf([ condition(undefined, "active") ], options).typeOfDisease).toEqual("breast_cancer");
+    });
+
+    it("ignores cancelled observations and observations entered in error", () => {
+      expect(bundleOf([ her2("final") ])._criterions.her2).toBeTrue();
+      expect(bundleOf([ her2("cancelled") ])._criterions.her2).toBeUndefined();
+      expect(bundleOf([ her2("entered-in-error") ])._criterions.her2).toBeUndefined();
+    });
+
+    it("optionally ignores preliminary observations", () => {
+      expect(bundleOf([ her2("preliminary") ])._criterions.her2).toBeTrue();
+      expect(bundleOf([ her2("preliminary") ], { includePreliminaryResults: false })._criterions.her2).toBeUndefined();
+    });
+
+    it("ignores results within cancelled reports", () => {
+      const report = (status: "final" | "cancelled"): BundleEntry => ({
+        resource: {
+          resourceType: "DiagnosticReport",
+          status: status,
+          code: {},
+          contained: [ { ...her2("final").resource, id: "her2" } as FhirResource ],
+          result: [ { reference: "#her2" } ]
+        } as FhirResource
+      });
+      expect(bundleOf([ report("final") ])._criterions.her2).toBeTrue();
+      expect(bundleOf([ report("cancelled") ])._criterions.her2).toBeUndefined();
+    });
+  });
+
+  describe("determines biomarker results", () => {
+    const her2 = (fields: object): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: "51981-9" } ] },
+        ...fields
+      } as FhirResource
+    });
+    it("uses interpretations", () => {
+      const interpretation = (code: string) => ({
+        interpretation: [ { coding: [ { system: "http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation", code: code } ] } ]
+      });
+      expect(bundleOf([ her2(interpretation("POS")) ])._criterions.her2).toBeTrue();
+      expect(bundleOf([ her2(interpretation("ND")) ])._criterions.her2).toBeFalse();
+    });
+
+    it("uses LOINC answers", () => {
+      expect(bundleOf([ her2({ valueCodeableConcept: { coding: [ { system: "http://loinc.org", code: "LA6576-8" } ] } }) ])._criterions.her2).toBeTrue();
+      expect(bundleOf([ her2({ valueCodeableConcept: { coding: [ { system: "http://loinc.org", code: "LA6577-6" } ] } }) ])._criterions.her2).toBeFalse();
+    });
+
+    it("uses textual values", () => {
+      expect(bundleOf([ her2({ valueString: "Positive" }) ])._criterions.her2).toBeTrue();
+      expect(bundleOf([ her2({ valueString: "Not detected" }) ])._criterions.her2).toBeFalse();
+      expect(bundleOf([ her2({ valueString: "Equivocal" }) ])._criterions.her2).toBeUndefined();
+    });
+
+    it("scores HER2 IHC results", () => {
+      const ihc = (score: string): BundleEntry => ({
+        resource: {
+          resourceType: "Observation",
+          status: "final",
+          code: { coding: [ { system: "http://loinc.org", code: "18474-7" } ] },
+          valueString: score,
+          interpretation: [ { coding: [ { system: "http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation", code: "POS" } ] } ]
+        }
+      });
+      expect(bundleOf([ ihc("3+") ])._criterions.her2).toBeTrue();
+      expect(bundleOf([ ihc("1+") ])._criterions.her2).toBeFalse();
+      // Borderline without an ISH result, even though it's interpreted as
+      // positive
+      expect(bundleOf([ ihc("2+") ])._criterions.her2).toBeUndefined();
+    });
+
+    it("scores ER percentages", () => {
+      const er: BundleEntry = {
+        resource: {
+          resourceType: "Observation",
+          status: "final",
+          code: { coding: [ { system: "http://loinc.org", code: "16112-5" } ] },
+          valueQuantity: { value: 5, system: "http://unitsofmeasure.org", code: "%" }
+        }
+      };
+      expect(bundleOf([ er ])._criterions.er).toBeTrue();
+      expect(bundleOf([ er ], { scoringGuideline: { hormoneReceptorPositiveFrom: 10, ishAmplified: () => null } })._criterions.er).toBeFalse();
+    });
+
+    it("infers MSI-H from the loss of an MMR protein", () => {
+      expect(bundleOf([ {
+        resource: {
+          resourceType: "Observation",
+          status: "final",
+          code: { text: "Mismatch repair protein panel" },
+          component: [
+            { code: { text: "MLH1" }, valueString: "Intact" },
+            { code: { text: "MSH2" }, valueString: "Lost" }
+          ]
+        }
+      } ])._criterions.msi).toBeTrue();
+    });
+
+    it("does not read negative germline MMR gene tests as MSI-H", () => {
+      expect(bundleOf([ {
+        resource: {
+          resourceType: "Observation",
+          status: "final",
+          code: { text: "MLH1 gene mutations" },
+          valueString: "Negative"
+        }
+      } ])._criterions.msi).not.toBeTrue();
+    });
+
+    it("uses the positivity resolver option", () => {
+      expect(bundleOf([ her2({ valueString: "Reactive" }) ], { positivityResolver: () => true })._criterions.her2).toBeTrue();
+    });
+  });
+
+  describe("records provenance", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          fullUrl: "urn:uuid:condition-1",
+          resource: {
+            resourceType: "Condition",
+            subject: {},
+            code: { coding: [ { system: "http://snomed.info/sct", code: "254837009", display: "Breast cancer" } ] }
+          }
+        },
+        {
+          resource: {
+            resourceType: "Observation",
+            id: "her2-old",
+            status: "final",
+            code: { coding: [ { system: "http://loinc.org", code: "51981-9" } ] },
+            valueCodeableConcept: { coding: [ { system: "http://snomed.info/sct", code: "10828004" } ] },
+            issued: "2022-01-01T00:00:00Z"
+          }
+        },
+        {
+          resource: {
+            resourceType: "Observation",
+            id: "her2-new",
+            status: "final",
+            code: { coding: [ { system: "http://loinc.org", code: "51981-9" } ] },
+            valueCodeableConcept: { coding: [ { system: "http://snomed.info/sct", code: "260385009" } ] },
+            issued: "2023-01-01T00:00:00Z"
+          }
+        },
+        {
+          resource: {
+            resourceType: "Patient",
+            id: "patient",
+            extension: [ { url: "http://hl7.org/fhir/us/core/StructureDefinition/us-core-birthsex", valueCode: "F" } ],
+            birthDate: "1960-06-01"
+          }
+        }
+      ]
+    }, undefined, { referenceDate: new Date("2023-06-01T00:00:00Z") });
+
+    it("keeps overwritten values", () => {
+      expect(query.getProvenance("her2")).toEqual([
+        {
+          value: true,
+          reference: "Observation/her2-old",
+          resourceType: "Observation",
+          code: { system: "http://loinc.org", code: "51981-9" },
+          date: "2022-01-01T00:00:00.000Z",
+          current: false
+        },
+        {
+          value: false,
+          reference: "Observation/her2-new",
+          resourceType: "Observation",
+          code: { system: "http://loinc.org", code: "51981-9" },
+          date: "2023-01-01T00:00:00.000Z",
+          current: true
+        }
+      ]);
+    });
+
+    it("records the code that set the type of disease", () => {
+      expect(query.getProvenance("type_of_disease")).toEqual([
+        {
+          value: "breast_cancer",
+          reference: "urn:uuid:condition-1",
+          resourceType: "Condition",
+          code: { system: "http://snomed.info/sct", code: "254837009", display: "Breast cancer" },
+          date: null,
+          current: true
+        }
+      ]);
+    });
+
+    it("records values from the patient", () => {
+      expect(query.getProvenance("age").map((record) => [record.value, record.reference])).toEqual([[63, "Patient/patient"]]);
+      expect(query.getProvenance("natal_sex").map((record) => [record.value, record.reference])).toEqual([["female", "Patient/patient"]]);
+    });
+
+    it("records derived values without a source", () => {
+      const records = query.getProvenance("postmenopausal");
+      expect(records.length).toEqual(1);
+      expect(records[0].reference).toBeUndefined();
+      expect(records[0].current).toBeTrue();
+    });
+
+    it("returns nothing for criteria that were never set", () => {
+      expect(query.getProvenance("ecog")).toEqual([]);
+      expect(query.getAllProvenance().has("ecog")).toBeFalse();
+      expect(query.getAllProvenance().get("her2").length).toEqual(2);
+    });
+
+    it("adds the current values to search results", () => {
+      const searchSet = new SearchSet([ { resource: new ResearchStudy(1), search: { mode: "match" } } ]);
+      addProvenanceExtensions(searchSet, query);
+      const extensions = searchSet.entry[0].search.extension;
+      expect(extensions.every((extension) => extension.url === QUERY_PROVENANCE_EXTENSION_URL)).toBeTrue();
+      expect(extensions).toContain({
+        url: QUERY_PROVENANCE_EXTENSION_URL,
+        extension: [
+          { url: "criterion", valueString: "her2" },
+          { url: "value", valueString: "false" },
+          { url: "source", valueReference: { reference: "Observation/her2-new" } },
+          { url: "code", valueCoding: { system: "http://loinc.org", code: "51981-9" } }
+        ]
+      });
+      expect(extensions.filter((extension) => extension.extension[0].valueString === "her2").length).toEqual(1);
+    });
+  });
+
+  describe("parses medications", () => {
+    // 2049112 maps to braf_therapy
+    const medication: Medication = {
+      resourceType: "Medication",
+      id: "medication-1",
+      code: { coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "2049112" } ] }
+    };
+    const myeloma: BundleEntry = {
+      resource: {
+        resourceType: "Condition",
+        subject: {},
+        code: { coding: [ { system: "http://snomed.info/sct", code: "109989006" } ] }
+      }
+    };
+    it("resolves contained medications", () => {
+      expect(bundleOf([{
+        resource: {
+          resourceType: "MedicationStatement",
+          status: "active",
+          subject: {},
+          contained: [ medication ],
+          medicationReference: { reference: "#medication-1" }
+        }
+      }])._criterions.braf_therapy).toBeTrue();
+    });
+
+    it("resolves medications in the bundle by full URL", () => {
+      expect(bundleOf([
+        {
+          resource: {
+            resourceType: "MedicationRequest",
+            status: "active",
+            intent: "order",
+            subject: {},
+            medicationReference: { reference: "urn:uuid:a1b2c3" }
+          }
+        },
+        { fullUrl: "urn:uuid:a1b2c3", resource: medication }
+      ])._criterions.braf_therapy).toBeTrue();
+    });
+
+    it("resolves medications in the bundle by type and ID", () => {
+      for (const reference of ["Medication/medication-1", "http://www.example.com/fhir/Medication/medication-1"]) {
+        expect(bundleOf([
+          { resource: medication },
+          {
+            resource: {
+              resourceType: "MedicationAdministration",
+              status: "completed",
+              subject: {},
+              effectiveDateTime: "2022-01-01",
+              medicationReference: { reference: reference }
+            }
+          }
+        ])._criterions.braf_therapy).toBeTrue();
+      }
+    });
+
+    it("ignores unresolvable medications", () => {
+      const query = bundleOf([{
+        resource: {
+          resourceType: "MedicationStatement",
+          status: "active",
+          subject: {},
+          medicationReference: { reference: "Medication/missing" }
+        } as MedicationStatement
+      }]);
+      expect(query._criterions.braf_therapy).toBeUndefined();
+    });
+
+    it("tracks medication administrations as treatments", () => {
+      const query = bundleOf([
+        myeloma,
+        {
+          resource: {
+            resourceType: "MedicationAdministration",
+            status: "in-progress",
+            subject: {},
+            effectiveDateTime: "2022-01-01",
+            medicationCodeableConcept: {
+              coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "358258" } ]
+            }
+          }
+        }
+      ]);
+      expect(query._criterions.in_treatment).toBeTrue();
+      expect(query._criterions.untreated).toBeFalse();
+    });
+
+    it("ignores cancelled, draft and erroneous medication requests", () => {
+      for (const status of [ "cancelled", "draft", "entered-in-error" ]) {
+        const criteria = bundleOf([
+          myeloma,
+          {
+            resource: {
+              resourceType: "MedicationRequest",
+              status: status,
+              intent: "order",
+              subject: {},
+              medicationCodeableConcept: {
+                coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "2049112" } ]
+              }
+            } as MedicationRequest
+          }
+        ])._criterions;
+        expect(criteria.braf_therapy).toBeUndefined();
+        expect(criteria.untreated).toBeUndefined();
+      }
+    });
+
+    it("ignores medication requests that are not orders", () => {
+      for (const intent of [ "plan", "proposal", "option" ]) {
+        const criteria = bundleOf([
+          myeloma,
+          {
+            resource: {
+              resourceType: "MedicationRequest",
+              status: "active",
+              intent: intent,
+              subject: {},
+              medicationCodeableConcept: {
+                coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "2049112" } ]
+              }
+            } as MedicationRequest
+          }
+        ])._criterions;
+        expect(criteria.braf_therapy).toBeUndefined();
+        expect(criteria.in_treatment).toBeUndefined();
+      }
+    });
+
+    it("ignores medications that were not taken", () => {
+      for (const status of [ "not-taken", "entered-in-error", "intended" ]) {
+        expect(bundleOf([{
+          resource: {
+            resourceType: "MedicationStatement",
+            status: status,
+            subject: {},
+            contained: [ medication ],
+            medicationReference: { reference: "#medication-1" }
+          } as MedicationStatement
+        }])._criterions.braf_therapy).toBeUndefined();
+      }
+    });
+
+    it("ignores medication administrations that were not done", () => {
+      for (const status of [ "not-done", "entered-in-error" ]) {
+        const criteria = bundleOf([
+          myeloma,
+          {
+            resource: {
+              resourceType: "MedicationAdministration",
+              status: status,
+              subject: {},
+              effectiveDateTime: "2022-01-01",
+              medicationCodeableConcept: {
+                coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "358258" } ]
+              }
+            } as MedicationAdministration
+          }
+        ])._criterions;
+        expect(criteria.in_treatment).toBeUndefined();
+        expect(criteria.untreated).toBeUndefined();
+      }
+    });
+  });
+
+  it("parses resources in nested bundles", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Bundle",
+            type: "collection",
+            entry: [
+              {
+                resource: {
+                  resourceType: "Condition",
+                  subject: {},
+                  code: { coding: [ { system: "http://snomed.info/sct", code: "254837009" } ] }
+                }
+              }
+            ]
+          }
+        }
+      ]
+    });
+    expect(query.typeOfDisease).toEqual("breast_cancer");
+  });
+
+  it("parses observations contained in diagnostic reports", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "DiagnosticReport",
+            status: "final",
+            code: {},
+            contained: [
+              {
+                resourceType: "Observation",
+                id: "ecog",
+                status: "final",
+                code: { coding: [ { system: "http://loinc.org", code: "89247-1" } ] },
+                valueInteger: 1
+              }
+            ],
+            result: [ { reference: "#ecog" }, { reference: "Observation/elsewhere" } ]
+          }
+        }
+      ]
+    }, "breast_cancer");
+    expect(query._criterions.ecog).toEqual(1);
+  });
+
+  describe("infers hematologic treatment stage", () => {
+    const myeloma: BundleEntry = {
+      resource: {
+        resourceType: "Condition",
+        subject: {},
+        code: { coding: [ { system: "http://snomed.info/sct", code: "109989006" } ] }
+      }
+    };
+    const bortezomib = (status: "active" | "completed"): BundleEntry => ({
+      resource: {
+        resourceType: "MedicationStatement",
+        status: status,
+        subject: {},
+        meta: {
+          profile: [ "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-cancer-related-medication-statement" ]
+        },
+        medicationCodeableConcept: {
+          coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "358258" } ]
+        }
+      }
+    });
+    const diseaseStatus = (code: string, effectiveDateTime: string): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: "97509-4" } ] },
+        valueCodeableConcept: { coding: [ { system: "http://snomed.info/sct", code: code } ] },
+        effectiveDateTime: effectiveDateTime
+      }
+    });
+    it("does not treat patients without treatment data as untreated", () => {
+      const criteria = bundleOf([myeloma])._criterions;
+      expect(criteria.untreated).toBeUndefined();
+      expect(criteria.in_treatment).toBeUndefined();
+    });
+
+    it("detects active treatment", () => {
+      const criteria = bundleOf([myeloma, bortezomib("active"), bortezomib("completed")])._criterions;
+      expect(criteria.untreated).toBeFalse();
+      expect(criteria.in_treatment).toBeTrue();
+    });
+
+    it("detects completed treatment", () => {
+      const criteria = bundleOf([myeloma, bortezomib("completed")])._criterions;
+      expect(criteria.untreated).toBeFalse();
+      expect(criteria.in_treatment).toBeFalse();
+    });
+
+    it("uses the most recent disease status", () => {
+      const criteria = bundleOf([
+        myeloma,
+        diseaseStatus("263855007", "2023-06-01"),
+        diseaseStatus("550991000124107", "2022-01-01")
+      ])._criterions;
+      expect(criteria.relapsed).toBeTrue();
+      expect(criteria.remission).toBeFalse();
+      expect(criteria.untreated).toBeFalse();
+    });
+
+    it("does not infer treatment stage for solid tumors", () => {
+      const criteria = bundleOf([{
+        resource: {
+          resourceType: "Condition",
+          subject: {},
+          code: { coding: [ { system: "http://snomed.info/sct", code: "363406005" } ] }
+        }
+      }, diseaseStatus("263855007", "2023-06-01")])._criterions;
+      expect(criteria.untreated).toBeUndefined();
+      expect(criteria.remission).toBeUndefined();
+      expect(criteria.relapsed).toBeUndefined();
+    });
+
+    it("does not treat progression as relapse", () => {
+      const criteria = bundleOf([myeloma, diseaseStatus("271299001", "2023-06-01")])._criterions;
+      expect(criteria.remission).toBeUndefined();
+      expect(criteria.relapsed).toBeUndefined();
+    });
+  });
+
+  describe("detects brain metastases", () => {
+    const brainMetastasis = (clinicalStatus?: string): BundleEntry => ({
+      fullUrl: "urn:uuid:brain-mets",
+      resource: {
+        resourceType: "Condition",
+        id: "brain-mets",
+        meta: {
+          profile: [ "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-secondary-cancer-condition" ]
+        },
+        subject: {},
+        clinicalStatus: clinicalStatus ? {
+          coding: [ { system: "http://terminology.hl7.org/CodeSystem/condition-clinical", code: clinicalStatus } ]
+        } : undefined,
+        recordedDate: "2022-01-01",
+        code: { coding: [ { system: "http://snomed.info/sct", code: "94225005" } ] }
+      }
+    });
+    it("sets brain_metastases without a control status", () => {
+      const criteria = bundleOf([brainMetastasis()])._criterions;
+      expect(criteria.brain_metastases).toBeTrue();
+      expect(criteria.controlled_brain_metastases).toBeUndefined();
+      expect(criteria.uncontrolled_brain_metastases).toBeUndefined();
+    });
+
+    it("uses the clinical status", () => {
+      const criteria = bundleOf([brainMetastasis("recurrence")])._criterions;
+      expect(criteria.controlled_brain_metastases).toBeFalse();
+      expect(criteria.uncontrolled_brain_metastases).toBeTrue();
+    });
+
+    it("does not treat active brain metastases as uncontrolled", () => {
+      const criteria = bundleOf([brainMetastasis("active")])._criterions;
+      expect(criteria.brain_metastases).toBeTrue();
+      expect(criteria.controlled_brain_metastases).toBeUndefined();
+      expect(criteria.uncontrolled_brain_metastases).toBeUndefined();
+    });
+
+    it("uses later disease status observations about the metastasis", () => {
+      const criteria = bundleOf([
+        {
+          resource: {
+            resourceType: "Observation",
+            status: "final",
+            code: { coding: [ { system: "http://loinc.org", code: "97509-4" } ] },
+            focus: [ { reference: "urn:uuid:brain-mets" } ],
+            effectiveDateTime: "2023-01-01",
+            valueCodeableConcept: { coding: [ { system: "http://snomed.info/sct", code: "359746009" } ] }
+          }
+        },
+        brainMetastasis("active")
+      ])._criterions;
+      expect(criteria.controlled_brain_metastases).toBeTrue();
+      expect(criteria.uncontrolled_brain_metastases).toBeFalse();
+    });
+
+    it("sets cns_leukemia for AML patients", () => {
+      const query = new AncoraAPIQuery({
+        resourceType: "Bundle",
+        type: "collection",
+        entry: [ brainMetastasis() ]
+      }, "acute_myeloid_leukemia");
+      expect(query._criterions.cns_leukemia).toBeTrue();
+      expect(bundleOf([brainMetastasis()])._criterions.cns_leukemia).toBeUndefined();
+    });
+  });
+
+  it("parses comorbidities", () => {
+    const query = new AncoraAPIQuery({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "Condition",
+            subject: {},
+            code: { coding: [ { system: "http://hl7.org/fhir/sid/icd-10", code: "E11.9" } ] },
+          },
+        },
+        {
+          resource: {
+            resourceType: "Condition",
+            subject: {},
+            code: { coding: [ { system: "http://snomed.info/sct", code: "709044004" } ] },
+          },
+        },
+      ],
+    });
+    expect(query._criterions.diabetes).toBeTrue();
+    expect(query._criterions.kidney_diseases).toBeTrue();
+    expect(query._criterions.hiv).toBeUndefined();
+  });
+
+  describe("parses allergies", () => {
+    it("detects medication allergies", () => {
+      expect(bundleOf([ { resource: {
+        resourceType: "AllergyIntolerance",
+        patient: {},
+        category: [ "medication" ],
+        code: { coding: [ { system: "http://snomed.info/sct", code: "764146007" } ] }
+      } } ])._criterions.allergies_to_medication).toBeTrue();
+      expect(bundleOf([ { resource: {
+        resourceType: "AllergyIntolerance",
+        patient: {},
+        code: { coding: [ { system: "http://snomed.info/sct", code: "416098002" } ] }
+      } } ])._criterions.allergies_to_medication).toBeTrue();
+    });
+
+    it("does not treat allergy medication codes as treatments", () => {
+      const criteria = bundleOf([ { resource: {
+        resourceType: "AllergyIntolerance",
+        patient: {},
+        code: { coding: [ { system: "http://www.nlm.nih.gov/research/umls/rxnorm", code: "2049112" } ] }
+      } } ])._criterions;
+      expect(criteria.allergies_to_medication).toBeTrue();
+      expect(criteria.braf_therapy).toBeUndefined();
+    });
+
+    it("ignores intolerances, refuted allergies, and other allergies", () => {
+      expect(bundleOf([ { resource: {
+        resourceType: "AllergyIntolerance",
+        patient: {},
+        type: "intolerance",
+        category: [ "medication" ]
+      } } ])._criterions.allergies_to_medication).toBeUndefined();
+      expect(bundleOf([ { resource: {
+        resourceType: "AllergyIntolerance",
+        patient: {},
+        verificationStatus: {
+          coding: [ { system: "http://terminology.hl7.org/CodeSystem/allergyintolerance-verification", code: "refuted" } ]
+        },
+        category: [ "medication" ]
+      } } ])._criterions.allergies_to_medication).toBeUndefined();
+      expect(bundleOf([ { resource: {
+        resourceType: "AllergyIntolerance",
+        patient: {},
+        category: [ "food" ]
+      } } ])._criterions.allergies_to_medication).toBeUndefined();
+    });
+
+    it("ignores inactive and resolved allergies", () => {
+      for (const status of [ "inactive", "resolved" ]) {
+        expect(bundleOf([ { resource: {
+          resourceType: "AllergyIntolerance",
+          patient: {},
+          clinicalStatus: {
+            coding: [ { system: "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical", code: status } ]
+          },
+          category: [ "medication" ],
+          code: { coding: [ { system: "http://snomed.info/sct", code: "416098002" } ] }
+        } } ])._criterions.allergies_to_medication).toBeUndefined();
+      }
+    });
+  });
+
+  describe("derives the tumor stage from TNM categories", () => {
+    const tnmObservation = (code: string, value: string, date?: string): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: code } ] },
+        valueCodeableConcept: { coding: [ { system: "http://cancerstaging.org", code: value } ] },
+        effectiveDateTime: date
+      }
+    });
+    const breastCancer: BundleEntry = {
+      resource: {
+        resourceType: "Condition",
+        subject: {},
+        code: { coding: [ { system: "http://snomed.info/sct", code: "254837009" } ] }
+      }
+    };
+    it("uses the disease's staging rules", () => {
+      const query = bundleOf([
+        tnmObservation("21905-5", "cT2"),
+        tnmObservation("21906-3", "cN0"),
+        tnmObservation("21907-1", "cM0"),
+        breastCancer
+      ]);
+      expect(query.typeOfDisease).toEqual("breast_cancer");
+      expect(query._criterions.tumor_stage).toEqual(2);
+    });
+
+    it("treats M1 as stage 4", () => {
+      expect(bundleOf([ tnmObservation("21907-1", "cM1") ])._criterions.tumor_stage).toEqual(4);
+    });
+
+    it("uses the most recent value for each category", () => {
+      expect(bundleOf([
+        tnmObservation("21907-1", "cM1", "2022-01-01"),
+        tnmObservation("21907-1", "cM0", "2021-01-01"),
+        tnmObservation("21905-5", "cT1", "2020-01-01"),
+        tnmObservation("21906-3", "cN0", "2020-01-01")
+      ])._criterions.tumor_stage).toEqual(4);
+    });
+
+    it("prefers a stage group", () => {
+      expect(bundleOf([
+        tnmObservation("21907-1", "cM1"),
         {
           resource: {
             resourceType: "Observation",
-            subject: {},
             status: "final",
-            code: {
-              coding: [
-                {
-                  system: "http://loinc.org",
-                  code: "89247-1",
-                },
-              ],
-            },
-            valueInteger: 2
-          },
-        },
-      ]
-    }, "breast_cancer");
-    expect(query._criterions.ecog).toEqual(2);
+            code: { coding: [ { system: "http://loinc.org", code: "21908-9" } ] },
+            valueCodeableConcept: { coding: [ { system: "http://cancerstaging.org", code: "2A" } ] }
+          }
+        }
+      ])._criterions.tumor_stage).toEqual(2);
+    });
   });
 
-  it('parses histology morphology values', () => {
-    const query = new AncoraAPIQuery({
-      resourceType: "Bundle",
-      type: "collection",
-      entry: [
+  describe("determines the natal sex", () => {
+    const birthSex = (valueCode: string) => ({
+      url: "http://hl7.org/fhir/us/core/StructureDefinition/us-core-birthsex",
+      valueCode: valueCode
+    });
+    const sexAssignedAtBirth = (code: string, effectiveDateTime?: string): BundleEntry => ({
+      resource: {
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: [ { system: "http://loinc.org", code: "76689-9" } ] },
+        valueCodeableConcept: { coding: [ { system: "http://loinc.org", code: code } ] },
+        effectiveDateTime: effectiveDateTime
+      }
+    });
+    it("uses the birth sex extension", () => {
+      expect(bundleOf([ { resource: { resourceType: "Patient", extension: [ birthSex("F") ] } } ])._criterions.natal_sex).toEqual("female");
+      expect(bundleOf([ { resource: { resourceType: "Patient", gender: "female", extension: [ birthSex("M") ] } } ])._criterions.natal_sex).toEqual("male");
+      expect(bundleOf([ { resource: { resourceType: "Patient", extension: [ birthSex("UNK") ] } } ])._criterions.natal_sex).toBeUndefined();
+    });
+
+    it("uses sex assigned at birth observations", () => {
+      expect(bundleOf([ sexAssignedAtBirth("LA3-6") ])._criterions.natal_sex).toEqual("female");
+      expect(bundleOf([
+        { resource: { resourceType: "Patient", extension: [ birthSex("F") ] } },
+        sexAssignedAtBirth("LA2-8", "2020-01-01")
+      ])._criterions.natal_sex).toEqual("male");
+      // Unknown
+      expect(bundleOf([ sexAssignedAtBirth("LA4489-6") ])._criterions.natal_sex).toBeUndefined();
+    });
+
+    it("only uses the gender if configured to", () => {
+      const patient: BundleEntry = { resource: { resourceType: "Patient", gender: "female" } };
+      expect(bundleOf([ patient ])._criterions.natal_sex).toBeUndefined();
+      expect(bundleOf([ patient ], { natalSexFromGender: true })._criterions.natal_sex).toEqual("female");
+      expect(bundleOf([ { resource: { resourceType: "Patient", gender: "other" } } ], { natalSexFromGender: true })._criterions.natal_sex).toBeUndefined();
+      expect(bundleOf([ patient, sexAssignedAtBirth("LA2-8") ], { natalSexFromGender: true })._criterions.natal_sex).toEqual("male");
+    });
+  });
+
+  describe("parses pregnancy and menopausal status", () => {
+    let patient: Patient;
+    beforeEach(() => {
+      patient = { resourceType: "Patient", gender: "female", birthDate: "1960-01-01" };
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(Date.UTC(2023, 1, 3, 0, 0, 0)));
+    });
+    afterEach(() => {
+      jasmine.clock().uninstall();
+    });
+    it("parses pregnancy status observations", () => {
+      expect(bundleOf([{
+        resource: {
+          resourceType: "Observation",
+          status: "final",
+          code: { coding: [ { system: "http://loinc.org", code: "82810-3" } ] },
+          valueCodeableConcept: { coding: [ { system: "http://loinc.org", code: "LA15173-0" } ] }
+        }
+      }])._criterions.pregnant_nursing).toBeTrue();
+    });
+
+    it("parses pregnancy conditions", () => {
+      expect(bundleOf([{
+        resource: {
+          resourceType: "Condition",
+          subject: {},
+          clinicalStatus: { coding: [ { system: "http://terminology.hl7.org/CodeSystem/condition-clinical", code: "active" } ] },
+          code: { coding: [ { system: "http://hl7.org/fhir/sid/icd-10", code: "Z34.90" } ] }
+        }
+      }])._criterions.pregnant_nursing).toBeTrue();
+    });
+
+    it("ignores pregnancy conditions without a clinical status", () => {
+      const criteria = bundleOf([
+        { resource: patient },
         {
-          fullUrl: "urn:uuid:conditionId-1",
           resource: {
-            "resourceType": "Condition",
-            "id": "conditionId-1",
-            "meta": {
-              "profile": [
-                "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-primary-cancer-condition"
-              ]
-            },
-            "extension": [
-              {
-                "url": "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-histology-morphology-behavior",
-                "valueCodeableConcept": {
-                  "coding": [
-                    {
-                      "system": "http://snomed.info/sct",
-                      "code": "254626006"
-                    }
-                  ]
-                }
-              }
-            ],
-            "code": {
-              "coding": [
-                {
-                  "system": "http://snomed.info/sct",
-                  "code": "25050002"
-                }
-              ]
-            },
-            "subject": {
-              "reference": "urn:uuid:TestPatient",
-              "type": "Patient"
-            }
+            resourceType: "Condition",
+            subject: {},
+            code: { coding: [ { system: "http://hl7.org/fhir/sid/icd-10", code: "O80" } ] },
+            recordedDate: "2005-06-01"
           }
         }
-      ]
+      ])._criterions;
+      expect(criteria.pregnant_nursing).toBeUndefined();
+      expect(criteria.postmenopausal).toBeTrue();
     });
-    expect(query._criterions.lung_adenocarcinoma).toBe(true);
-  });
 
-  it("parses Karnofsky scores", () => {
-    const query = new AncoraAPIQuery({
-      resourceType: "Bundle",
-      type: "collection",
-      entry: [
+    it("ignores resolved and inactive pregnancy conditions", () => {
+      for (const excludeInactiveDiseases of [ false, true ]) {
+        for (const status of [ "resolved", "inactive" ]) {
+          expect(bundleOf([{
+            resource: {
+              resourceType: "Condition",
+              subject: {},
+              clinicalStatus: { coding: [ { system: "http://terminology.hl7.org/CodeSystem/condition-clinical", code: status } ] },
+              code: { coding: [ { system: "http://hl7.org/fhir/sid/icd-10", code: "Z34.00" } ] },
+              recordedDate: "2015-03-01"
+            }
+          }], { excludeInactiveDiseases })._criterions.pregnant_nursing).toBeUndefined();
+        }
+      }
+    });
+
+    it("uses explicit menopausal status over the age fallback", () => {
+      patient.birthDate = "1990-01-01";
+      const criteria = bundleOf([
+        { resource: patient },
         {
           resource: {
-            resourceType: "Observation",
+            resourceType: "Condition",
             subject: {},
-            status: "final",
-            code: {
-              coding: [
-                {
-                  system: "http://loinc.org",
-                  code: "89243-0",
-                },
-              ],
-            },
-            valueInteger: 80
-          },
-        },
-      ]
-    }, "breast_cancer");
-    expect(query._criterions.karnofsky).toEqual(80);
-  });
+            code: { coding: [ { system: "http://snomed.info/sct", code: "76498008" } ] }
+          }
+        }
+      ])._criterions;
+      expect(criteria.postmenopausal).toBeTrue();
+      expect(criteria.premenopausal).toBeFalse();
+    });
 
-  it("parses positive biomarkers", () => {
-    const query = new AncoraAPIQuery({
-      resourceType: "Bundle",
-      type: "collection",
-      entry: [
+    it("parses premenopausal status observations", () => {
+      const criteria = bundleOf([
+        { resource: patient },
         {
-          "resource": {
-            "resourceType": "Observation",
-            "status": "final",
-            "subject": {
-              "reference": "urn:uuid:Ob4VwDGaXWUMXbJOr7nMN",
-              "type": "Patient"
-            },
-            "valueCodeableConcept": {
-              "coding": [
-                {
-                  "code": "10828004",
-                  "display": "Positive (qualifier value)",
-                  "system": "http://snomed.info/sct"
-                }
-              ]
-            },
-            "meta": {
-              "profile": [
-                "http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-tumor-marker"
-              ]
-            },
-            "code": {
-              "coding": [
-                {
-                  "code": "50995-0",
-                  "display": "BRCA1+BRCA2 gene targeted mutation analysis in Blood or Tissue by Molecular genetics method",
-                  "system": "http://loinc.org"
-                }
-              ]
-            },
-            "category": [
-              {
-                "coding": [
-                  {
-                    "system": "http://terminology.hl7.org/CodeSystem/observation-category",
-                    "code": "laboratory"
-                  }
-                ]
-              }
-            ]
+          resource: {
+            resourceType: "Observation",
+            status: "final",
+            code: { coding: [ { system: "http://loinc.org", code: "42798-9" } ] },
+            valueCodeableConcept: { coding: [ { system: "http://snomed.info/sct", code: "289903006" } ] }
           }
         }
-      ]
+      ])._criterions;
+      expect(criteria.premenopausal).toBeTrue();
+      expect(criteria.postmenopausal).toBeFalse();
+    });
+
+    it("infers menopausal status from age", () => {
+      let criteria = bundleOf([ { resource: patient } ])._criterions;
+      expect(criteria.postmenopausal).toBeTrue();
+      expect(criteria.premenopausal).toBeFalse();
+      patient.birthDate = "1990-01-01";
+      criteria = bundleOf([ { resource: patient } ])._criterions;
+      expect(criteria.postmenopausal).toBeFalse();
+      expect(criteria.premenopausal).toBeTrue();
+      // Between the two ages, nothing is inferred
+      patient.birthDate = "1973-01-01";
+      criteria = bundleOf([ { resource: patient } ])._criterions;
+      expect(criteria.postmenopausal).toBeUndefined();
+      expect(criteria.premenopausal).toBeUndefined();
+    });
+
+    it("only infers menopausal status for female patients", () => {
+      patient.gender = "male";
+      expect(bundleOf([ { resource: patient } ])._criterions.postmenopausal).toBeUndefined();
+    });
+
+    it("uses the natal sex over the gender to infer menopausal status", () => {
+      patient.extension = [ { url: "http://hl7.org/fhir/us/core/StructureDefinition/us-core-birthsex", valueCode: "M" } ];
+      const criteria = bundleOf([ { resource: patient } ])._criterions;
+      expect(criteria.natal_sex).toEqual("male");
+      expect(criteria.postmenopausal).toBeUndefined();
+    });
+
+    it("allows the age fallback to be configured", () => {
+      expect(bundleOf([ { resource: patient } ], { menopausalAgeFallback: false })._criterions.postmenopausal).toBeUndefined();
+      expect(bundleOf([ { resource: patient } ], {
+        menopausalAgeFallback: { premenopausalBelow: 65, postmenopausalFrom: 70 }
+      })._criterions.premenopausal).toBeTrue();
     });
-    expect(query._criterions.brca1).toBe(true);
   });
 
   describe("parses ages", () => {
@@ -451,6 +1798,32 @@ describe("APIQuery", () => {
     afterEach(() => {
       jasmine.clock().uninstall();
     });
+    it('uses the reference date option', () => {
+      jasmine.clock().mockDate(new Date(Date.UTC(2023, 1, 3, 0, 0, 0)));
+      patient.birthDate = '2002-02-01';
+      const query = new AncoraAPIQuery(bundle, undefined, { referenceDate: new Date(Date.UTC(2010, 5, 1)) });
+      expect(query._criterions.age).toEqual(8);
+      expect(query.referenceDate).toEqual(new Date(Date.UTC(2010, 5, 1)));
+    });
+    it('uses the referenceDate parameter', () => {
+      jasmine.clock().mockDate(new Date(Date.UTC(2023, 1, 3, 0, 0, 0)));
+      patient.birthDate = '2002-02-01';
+      // The parameter may come after the patient
+      bundle.entry.push({
+        resource: { resourceType: 'Parameters', parameter: [ { name: 'referenceDate', valueString: '2012-01-31' } ] }
+      });
+      expect(new AncoraAPIQuery(bundle)._criterions.age).toEqual(9);
+      // The option takes precedence
+      expect(new AncoraAPIQuery(bundle, undefined, { referenceDate: new Date(Date.UTC(2020, 1, 1)) })._criterions.age).toEqual(18);
+    });
+    it('ignores invalid referenceDate parameters', () => {
+      jasmine.clock().mockDate(new Date(Date.UTC(2023, 1, 3, 0, 0, 0)));
+      patient.birthDate = '2002-02-01';
+      bundle.entry.push({
+        resource: { resourceType: 'Parameters', parameter: [ { name: 'referenceDate', valueString: 'yesterday' } ] }
+      });
+      expect(new AncoraAPIQuery(bundle)._criterions.age).toEqual(21);
+    });
     it('handles birth dates before today', () => {
       jasmine.clock().mockDate(new Date(Date.UTC(2023, 1, 3, 0, 0, 0)));
       patient.birthDate = '2002-02-01';
@@ -893,15 +2266,59 @@ describe("APIQuery", () => {
     // This loads a known patient bundle generated by the matching app
     const jsonString = await fs.promises.readFile(path.resolve(__dirname, '../../spec/data/patient_bundle.json'), {encoding: 'utf-8'});
     const bundle = JSON.parse(jsonString) as Bundle<FhirResource>;
-    const query = new AncoraAPIQuery(bundle);
+    // The front end only sends the gender
+    const query = new AncoraAPIQuery(bundle, undefined, { natalSexFromGender: true });
     expect(query.typeOfDisease).toEqual('colorectal_cancer');
     expect(query._criterions.ecog).toEqual(3);
     expect(query._criterions.karnofsky).toEqual(60);
+    expect(query.derivedCriteria.size).toEqual(0);
     expect(query._criterions.tumor_stage).toEqual(3);
     expect(query._criterions.natal_sex).toEqual('female');
   });
 });
 
+describe("findResourceDate()", () => {
+  it("uses effective[x] and falls back to issued for observations", () => {
+    expect(findResourceDate({
+      resourceType: "Observation",
+      status: "final",
+      code: {},
+      effectivePeriod: { start: "2020-01-01T00:00:00Z", end: "2020-02-01T00:00:00Z" },
+      issued: "2020-03-01T00:00:00Z"
+    })).toEqual(Date.UTC(2020, 1, 1));
+    expect(findResourceDate({
+      resourceType: "Observation",
+      status: "final",
+      code: {},
+      issued: "2020-03-01T00:00:00Z"
+    })).toEqual(Date.UTC(2020, 2, 1));
+  });
+
+  it("handles other resource types", () => {
+    expect(findResourceDate({
+      resourceType: "Condition",
+      subject: {},
+      onsetDateTime: "2019-05-01T00:00:00Z"
+    })).toEqual(Date.UTC(2019, 4, 1));
+    expect(findResourceDate({
+      resourceType: "Procedure",
+      status: "completed",
+      subject: {},
+      performedPeriod: { start: "2021-01-01T00:00:00Z" }
+    })).toEqual(Date.UTC(2021, 0, 1));
+    expect(findResourceDate({ resourceType: "Patient" })).toBeNull();
+  });
+
+  it("ignores invalid dates", () => {
+    expect(findResourceDate({
+      resourceType: "MedicationStatement",
+      status: "active",
+      subject: {},
+      effectiveDateTime: "invalid"
+    })).toBeNull();
+  });
+});
+
 describe("convertResponseToSearchSet()", () => {
   it("converts trials", () => {
     return expectAsync(
@@ -915,6 +2332,40 @@ describe("convertResponseToSearchSet()", () => {
     ).toBeResolved();
   });
 
+  it("filters trials by phase and status", async () => {
+    const phase2Trial: AncoraTrial = { ...exampleTrial, trial_id: "NCT00000001", trial_phase: "Phase 1/Phase 2" };
+    const response: AncoraResponse = [exampleTrial, phase2Trial];
+    let searchSet = await convertResponseToSearchSet(response, undefined, { phases: new Set(["phase-2", "phase-3"]) });
+    expect(searchSet.entry.map((entry) => (entry.resource as ResearchStudy).identifier[0].value)).toEqual(["NCT00000001"]);
+    searchSet = await convertResponseToSearchSet(response, undefined, { recruitmentStatuses: new Set(["approved"]) });
+    expect(searchSet.entry.length).toEqual(0);
+    searchSet = await convertResponseToSearchSet(response, undefined, { recruitmentStatuses: new Set(["active"]) });
+    expect(searchSet.entry.length).toEqual(2);
+  });
+
+  it("does not match trials with an unknown status on status", async () => {
+    const completedTrial: AncoraTrial = { ...exampleTrial, trial_id: "NCT00000001", recruiting_status: "Completed" };
+    const unknownTrial: AncoraTrial = { ...exampleTrial, trial_id: "NCT00000002", recruiting_status: "Unknown status" };
+    const response: AncoraResponse = [exampleTrial, completedTrial, unknownTrial];
+    let searchSet = await convertResponseToSearchSet(response, undefined, { recruitmentStatuses: new Set(["active"]) });
+    expect(searchSet.entry.map((entry) => (entry.resource as ResearchStudy).identifier[0].value)).toEqual(["NCT00000000"]);
+    searchSet = await convertResponseToSearchSet(response, undefined, { phases: new Set(["n-a"]) });
+    expect(searchSet.entry.length).toEqual(3);
+  });
+
+  it("filters trials after updating them from the backup service", async () => {
+    const backupService = new ClinicalTrialsGovService("temp");
+    spyOn(backupService, "updateSearchSetEntries").and.callFake((entries) => {
+      for (const entry of entries) {
+        entry.resource = { ...entry.resource, status: entry.resource.id === "study-0" ? "completed" : "active" };
+      }
+      return Promise.resolve(entries);
+    });
+    const unknownTrial: AncoraTrial = { ...exampleTrial, trial_id: "NCT00000001", recruiting_status: "Unknown status" };
+    const searchSet = await convertResponseToSearchSet([exampleTrial, unknownTrial], backupService, { recruitmentStatuses: new Set(["active"]) });
+    expect(searchSet.entry.map((entry) => (entry.resource as ResearchStudy).id)).toEqual(["study-1"]);
+  });
+
   it("skips invalid trials", () => {
     const response: AncoraResponse = [exampleTrial,{ invalidObject: true, }];
     return expectAsync(convertResponseToSearchSet(response)).toBeResolved();
@@ -940,6 +2391,112 @@ describe("convertResponseToSearchSet()", () => {
   });
 });
 
+describe("parseListParameter()", () => {
+  it("parses comma separated values", () => {
+    expect(parseListParameter("phase-1, Phase 2,,Phase 1/Phase 2")).toEqual(new Set(["phase-1", "phase-2", "phase-1-phase-2"]));
+  });
+  it("returns null with no values", () => {
+    expect(parseListParameter(" , ")).toBeNull();
+    expect(parseListParameter(null)).toBeNull();
+  });
+});
+
+describe("matchesTrialFilter()", () => {
+  const study = (phase: string | undefined, status: ResearchStudy["status"]): ResearchStudy => {
+    const result = new ResearchStudy("example");
+    result.status = status;
+    if (phase) {
+      result.phase = { coding: [ { code: phase } ] };
+    }
+    return result;
+  };
+  it("matches everything with an empty filter", () => {
+    expect(matchesTrialFilter(study(undefined, "active"), {})).toBeTrue();
+  });
+  it("matches studies spanning multiple phases", () => {
+    expect(matchesTrialFilter(study("phase-2-phase-3", "active"), { phases: new Set(["phase-3"]) })).toBeTrue();
+    expect(matchesTrialFilter(study("phase-2-phase-3", "active"), { phases: new Set(["phase-2-phase-3"]) })).toBeTrue();
+    expect(matchesTrialFilter(study("phase-2-phase-3", "active"), { phases: new Set(["phase-1"]) })).toBeFalse();
+  });
+  it("does not match unknown phases", () => {
+    expect(matchesTrialFilter(study(undefined, "active"), { phases: new Set(["phase-1"]) })).toBeFalse();
+  });
+  it("matches both the phase and status", () => {
+    const filter = { phases: new Set(["phase-1"]), recruitmentStatuses: new Set(["active", "approved"]) };
+    expect(matchesTrialFilter(study("phase-1", "approved"), filter)).toBeTrue();
+    expect(matchesTrialFilter(study("phase-1", "completed"), filter)).toBeFalse();
+  });
+  it("does not match an unknown status", () => {
+    expect(matchesTrialFilter(study("phase-1", "active"), { recruitmentStatuses: new Set(["active"]) }, false)).toBeFalse();
+    expect(matchesTrialFilter(study("phase-1", "active"), { phases: new Set(["phase-1"]) }, false)).toBeTrue();
+  });
+});
+
+describe("convertResponsesToSearchSet()", () => {
+  it("merges trials keeping the best score", async () => {
+    const otherTrial: AncoraTrial = { ...exampleTrial, trial_id: "NCT00000001", ancora_match_score: 0.6 };
+    const searchSet = await convertResponsesToSearchSet(new Map<"breast_cancer" | "colorectal_cancer", AncoraResponse>([
+      ["breast_cancer", [exampleTrial, otherTrial]],
+      ["colorectal_cancer", [{ ...exampleTrial, ancora_match_score: 0.9 }, { invalidObject: true }]],
+    ]));
+    expect(searchSet.entry.length).toEqual(2);
+    expect(searchSet.entry[0].search.score).toEqual(0.9);
+    expect(searchSet.entry[0].search.extension).toEqual([
+      { url: DISEASE_QUERY_EXTENSION_URL, valueString: "colorectal_cancer" }
+    ]);
+    expect(searchSet.entry[1].search.score).toEqual(0.6);
+    expect(searchSet.entry[1].search.extension).toEqual([
+      { url: DISEASE_QUERY_EXTENSION_URL, valueString: "breast_cancer" }
+    ]);
+  });
+});
+
+describe("multi-disease ClinicalTrialLookup", () => {
+  const patientBundle: Bundle = {
+    resourceType: "Bundle",
+    type: "batch",
+    entry: [
+      {
+        resource: {
+          resourceType: "Condition",
+          subject: {},
+          code: { coding: [ { system: 'http://snomed.info/sct', code: '363406005' } ] }
+        }
+      },
+      {
+        resource: {
+          resourceType: "Condition",
+          subject: {},
+          code: { coding: [ { system: 'http://snomed.info/sct', code: '326072005' } ] }
+        }
+      }
+    ],
+  };
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("sends one query per disease", async () => {
+    const matcher = createAncoraAiLookup({
+      endpoint: "https://www.example.com/endpoint",
+      api_key: "test_token",
+      multi_disease: "true"
+    });
+    const diseases: string[] = [];
+    nock("https://www.example.com")
+      .post("/endpoint")
+      .times(2)
+      .reply(200, (_uri, body) => {
+        diseases.push((body as { type_of_disease: string }).type_of_disease);
+        return [exampleTrial];
+      });
+    const searchSet = await matcher(patientBundle);
+    expect(diseases.sort()).toEqual(["colorectal_cancer", "pancreatic_cancer"]);
+    expect(searchSet.entry.length).toEqual(1);
+  });
+});
+
 describe("ClinicalTrialLookup", () => {
   // A valid patient bundle for the matcher, passed to ensure a query is generated
   const patientBundle: Bundle = {
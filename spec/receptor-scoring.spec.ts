@@ -0,0 +1,105 @@
+import { Observation } from 'fhir/r4';
+import {
+  parseIHCScore,
+  parseISHResult,
+  SCORING_GUIDELINES,
+  scoreReceptorObservation
+} from '../src/receptor-scoring';
+
+describe('parseIHCScore()', () => {
+  it('parses scores', () => {
+    expect(parseIHCScore('3+')).toEqual(3);
+    expect(parseIHCScore('Score 1+')).toEqual(1);
+    expect(parseIHCScore('0')).toEqual(0);
+    expect(parseIHCScore('Positive (3+)')).toEqual(3);
+    expect(parseIHCScore('Negative (0)')).toEqual(0);
+    expect(parseIHCScore('Equivocal 2+')).toEqual(2);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseIHCScore('Positive')).toBeNull();
+    expect(parseIHCScore('4+')).toBeNull();
+    expect(parseIHCScore('85%')).toBeNull();
+  });
+});
+
+describe('parseISHResult()', () => {
+  it('parses results', () => {
+    expect(parseISHResult('Amplified')).toBeTrue();
+    expect(parseISHResult('HER2 gene amplified')).toBeTrue();
+    expect(parseISHResult('Not amplified')).toBeFalse();
+    expect(parseISHResult('Non-amplified')).toBeFalse();
+    expect(parseISHResult('Equivocal')).toBeNull();
+    expect(parseISHResult('Positive')).toBeUndefined();
+  });
+});
+
+describe('ASCO/CAP ISH rules', () => {
+  it('uses both the ratio and copy number in 2018', () => {
+    const amplified = SCORING_GUIDELINES['2018'].ishAmplified;
+    expect(amplified(2.5, 5)).toBeTrue();
+    expect(amplified(2.5, 3)).toBeFalse();
+    expect(amplified(1.5, 6.5)).toBeNull();
+    expect(amplified(1.5, 3)).toBeFalse();
+    expect(amplified(2.2, null)).toBeTrue();
+    expect(amplified(null, null)).toBeNull();
+  });
+
+  it('uses either the ratio or copy number in 2013', () => {
+    const amplified = SCORING_GUIDELINES['2013'].ishAmplified;
+    expect(amplified(2.5, 3)).toBeTrue();
+    expect(amplified(1.5, 6.5)).toBeTrue();
+    expect(amplified(1.5, 5)).toBeNull();
+    expect(amplified(1.5, 3)).toBeFalse();
+  });
+});
+
+describe('scoreReceptorObservation()', () => {
+  const observation = (code: string, fields: Partial<Observation>): Observation => ({
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [ { system: 'http://loinc.org', code: code } ] },
+    ...fields
+  });
+
+  it('scores HER2 IHC results', () => {
+    expect(scoreReceptorObservation(observation('18474-7', { valueString: '3+' }))).toEqual({ flag: 'her2', positive: true });
+    expect(scoreReceptorObservation(observation('18474-7', { valueString: '1+' }))).toEqual({ flag: 'her2', positive: false });
+    expect(scoreReceptorObservation(observation('18474-7', { valueInteger: 0 }))).toEqual({ flag: 'her2', positive: false });
+    expect(scoreReceptorObservation(observation('18474-7', {
+      valueCodeableConcept: { coding: [ { system: 'http://example.com', code: 'x', display: 'Equivocal (2+)' } ] }
+    }))).toEqual({ flag: 'her2', positive: null });
+  });
+
+  it('scores HER2 ISH results', () => {
+    expect(scoreReceptorObservation(observation('85318-4', { valueString: 'Amplified' }))).toEqual({ flag: 'her2', positive: true });
+    expect(scoreReceptorObservation(observation('85318-4', {
+      component: [
+        { code: { text: 'HER2/CEP17 ratio' }, valueQuantity: { value: 2.4, system: 'http://unitsofmeasure.org', code: '{ratio}' } },
+        { code: { text: 'HER2 copies' }, valueQuantity: { value: 3.2, system: 'http://unitsofmeasure.org', code: '{copies}/{nucleus}' } }
+      ]
+    }))).toEqual({ flag: 'her2', positive: false });
+    expect(scoreReceptorObservation(observation('85318-4', {
+      component: [
+        { code: { text: 'HER2/CEP17 ratio' }, valueQuantity: { value: 2.4, system: 'http://unitsofmeasure.org', code: '{ratio}' } },
+        { code: { text: 'HER2 copies' }, valueQuantity: { value: 3.2, system: 'http://unitsofmeasure.org', code: '{copies}/{nucleus}' } }
+      ]
+    }), SCORING_GUIDELINES['2013'])).toEqual({ flag: 'her2', positive: true });
+  });
+
+  it('scores ER and PR percentages', () => {
+    const percent = (value: number) => ({ valueQuantity: { value: value, system: 'http://unitsofmeasure.org', code: '%' } });
+    expect(scoreReceptorObservation(observation('16112-5', percent(85)))).toEqual({ flag: 'er', positive: true });
+    expect(scoreReceptorObservation(observation('16112-5', percent(1)))).toEqual({ flag: 'er', positive: true });
+    expect(scoreReceptorObservation(observation('16113-3', percent(0.5)))).toEqual({ flag: 'pr', positive: false });
+    expect(scoreReceptorObservation(observation('16113-3', { valueString: '10%' }))).toEqual({ flag: 'pr', positive: true });
+    expect(scoreReceptorObservation(observation('16113-3', { valueString: 'Positive' }))).toBeNull();
+  });
+
+  it('ignores other observations', () => {
+    expect(scoreReceptorObservation(observation('89247-1', { valueInteger: 1 }))).toBeNull();
+    expect(scoreReceptorObservation(observation('51981-9', {
+      valueCodeableConcept: { coding: [ { system: 'http://snomed.info/sct', code: '10828004', display: 'Positive' } ] }
+    }))).toBeNull();
+  });
+});
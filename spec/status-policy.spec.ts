@@ -0,0 +1,96 @@
+import { AllergyIntolerance, Condition } from 'fhir/r4';
+import {
+  isActiveCondition,
+  isInactiveOrResolved,
+  isOrderIntent,
+  isRefutedOrEnteredInError,
+  isUsableResultStatus,
+  isUsableTreatmentStatus
+} from '../src/status-policy';
+
+describe('isRefutedOrEnteredInError()', () => {
+  it('checks the verification status', () => {
+    const withStatus = (code: string) => ({ verificationStatus: { coding: [ { code: code } ] } });
+    expect(isRefutedOrEnteredInError(withStatus('refuted'))).toBeTrue();
+    expect(isRefutedOrEnteredInError(withStatus('entered-in-error'))).toBeTrue();
+    expect(isRefutedOrEnteredInError(withStatus('confirmed'))).toBeFalse();
+    expect(isRefutedOrEnteredInError({})).toBeFalse();
+  });
+});
+
+describe('isInactiveOrResolved()', () => {
+  const condition = (code: string): Condition => ({
+    resourceType: 'Condition',
+    subject: {},
+    clinicalStatus: { coding: [ { system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: code } ] }
+  });
+  it('checks the clinical status', () => {
+    expect(isInactiveOrResolved(condition('inactive'))).toBeTrue();
+    expect(isInactiveOrResolved(condition('resolved'))).toBeTrue();
+    expect(isInactiveOrResolved(condition('remission'))).toBeFalse();
+    expect(isInactiveOrResolved(condition('active'))).toBeFalse();
+    expect(isInactiveOrResolved({})).toBeFalse();
+  });
+  it('checks allergies', () => {
+    const allergy = (code: string): AllergyIntolerance => ({
+      resourceType: 'AllergyIntolerance',
+      patient: {},
+      clinicalStatus: { coding: [ { system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical', code: code } ] }
+    });
+    expect(isInactiveOrResolved(allergy('resolved'))).toBeTrue();
+    expect(isInactiveOrResolved(allergy('active'))).toBeFalse();
+  });
+});
+
+describe('isActiveCondition()', () => {
+  it('checks the clinical status', () => {
+    const withStatus = (code: string) => ({ clinicalStatus: { coding: [ { code: code } ] } });
+    expect(isActiveCondition(withStatus('active'))).toBeTrue();
+    expect(isActiveCondition(withStatus('recurrence'))).toBeTrue();
+    expect(isActiveCondition(withStatus('resolved'))).toBeFalse();
+    expect(isActiveCondition({})).toBeFalse();
+  });
+});
+
+describe('isUsableResultStatus()', () => {
+  it('rejects cancelled results and results entered in error', () => {
+    expect(isUsableResultStatus('final')).toBeTrue();
+    expect(isUsableResultStatus('amended')).toBeTrue();
+    expect(isUsableResultStatus(undefined)).toBeTrue();
+    expect(isUsableResultStatus('cancelled')).toBeFalse();
+    expect(isUsableResultStatus('entered-in-error')).toBeFalse();
+  });
+
+  it('uses the policy for preliminary results', () => {
+    expect(isUsableResultStatus('preliminary')).toBeTrue();
+    expect(isUsableResultStatus('preliminary', { includePreliminaryResults: false, excludeInactiveDiseases: false })).toBeFalse();
+  });
+});
+
+describe('isOrderIntent()', () => {
+  it('accepts orders', () => {
+    for (const intent of ['order', 'original-order', 'reflex-order', 'filler-order', 'instance-order', undefined]) {
+      expect(isOrderIntent(intent)).toBeTrue();
+    }
+  });
+
+  it('rejects plans, proposals, and options', () => {
+    for (const intent of ['plan', 'proposal', 'option']) {
+      expect(isOrderIntent(intent)).toBeFalse();
+    }
+  });
+});
+
+describe('isUsableTreatmentStatus()', () => {
+  it('rejects treatments that never happened', () => {
+    for (const status of ['entered-in-error', 'not-taken', 'cancelled', 'not-done', 'draft', 'intended']) {
+      expect(isUsableTreatmentStatus(status)).toBeFalse();
+    }
+  });
+
+  it('accepts other treatments', () => {
+    for (const status of ['active', 'completed', 'stopped', 'in-progress', 'on-hold', undefined]) {
+      expect(isUsableTreatmentStatus(status)).toBeTrue();
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import { parseTNMValue, stageFromTNM, TNMCategory, TNMClassification } from '../src/tnm';
+
+describe('parseTNMValue()', () => {
+  it('parses AJCC codes', () => {
+    expect(parseTNMValue('cT3')).toEqual({ category: 'T', value: 3, subcategory: '' });
+    expect(parseTNMValue('pN1mi')).toEqual({ category: 'N', value: 1, subcategory: 'mi' });
+    expect(parseTNMValue('ycT2b')).toEqual({ category: 'T', value: 2, subcategory: 'b' });
+    expect(parseTNMValue('M1c')).toEqual({ category: 'M', value: 1, subcategory: 'c' });
+    expect(parseTNMValue('Tis')).toEqual({ category: 'T', value: 'is', subcategory: '' });
+    expect(parseTNMValue('AJCC cT4a')).toEqual({ category: 'T', value: 4, subcategory: 'a' });
+  });
+
+  it('uses the expected category when the letter is missing', () => {
+    expect(parseTNMValue('3', 'T')).toEqual({ category: 'T', value: 3, subcategory: '' });
+    expect(parseTNMValue('3')).toBeNull();
+  });
+
+  it('rejects values that do not match the expected category', () => {
+    expect(parseTNMValue('cN1', 'T')).toBeNull();
+  });
+
+  it('rejects unknown and invalid values', () => {
+    expect(parseTNMValue('TX')).toBeNull();
+    expect(parseTNMValue('N4')).toBeNull();
+    expect(parseTNMValue('M2')).toBeNull();
+    expect(parseTNMValue('Nis')).toBeNull();
+    expect(parseTNMValue('T12')).toBeNull();
+    expect(parseTNMValue('invalid')).toBeNull();
+    expect(parseTNMValue(undefined)).toBeNull();
+  });
+});
+
+describe('stageFromTNM()', () => {
+  const tnm = (...codes: string[]): TNMClassification => {
+    const result: TNMClassification = {};
+    for (const code of codes) {
+      const value = parseTNMValue(code);
+      result[value.category as TNMCategory] = value;
+    }
+    return result;
+  };
+
+  it('treats M1 as stage 4', () => {
+    expect(stageFromTNM(tnm('M1'))).toEqual(4);
+    expect(stageFromTNM(tnm('T1', 'N0', 'M1a'), 'breast_cancer')).toEqual(4);
+  });
+
+  it('requires T and N', () => {
+    expect(stageFromTNM(tnm('T1', 'M0'))).toBeNull();
+    expect(stageFromTNM(tnm('N1', 'M0'))).toBeNull();
+  });
+
+  it('treats Tis N0 as stage 0', () => {
+    expect(stageFromTNM(tnm('Tis', 'N0', 'M0'))).toEqual(0);
+    expect(stageFromTNM(tnm('Tis', 'N0'), 'breast_cancer')).toEqual(0);
+  });
+
+  it('uses the generic rule for diseases without a table', () => {
+    expect(stageFromTNM(tnm('T1', 'N0'))).toEqual(1);
+    expect(stageFromTNM(tnm('T3', 'N0'), 'gastric_cancer')).toEqual(2);
+    expect(stageFromTNM(tnm('T4', 'N0'))).toEqual(3);
+    expect(stageFromTNM(tnm('T2', 'N2'))).toEqual(3);
+    expect(stageFromTNM(tnm('T0', 'N0'))).toBeNull();
+  });
+
+  it('uses per-disease tables', () => {
+    expect(stageFromTNM(tnm('T2', 'N0'), 'breast_cancer')).toEqual(2);
+    expect(stageFromTNM(tnm('T1', 'N1mi'), 'breast_cancer')).toEqual(1);
+    expect(stageFromTNM(tnm('T3', 'N1'), 'breast_cancer')).toEqual(3);
+    expect(stageFromTNM(tnm('T2', 'N0'), 'colorectal_cancer')).toEqual(1);
+    expect(stageFromTNM(tnm('T3', 'N0'), 'colorectal_cancer')).toEqual(2);
+    expect(stageFromTNM(tnm('T2a', 'N0'), 'lung_cancer')).toEqual(1);
+    expect(stageFromTNM(tnm('T2b', 'N0'), 'lung_cancer')).toEqual(2);
+    expect(stageFromTNM(tnm('T2a', 'N0'), 'melanoma')).toEqual(1);
+    expect(stageFromTNM(tnm('T4', 'N0'), 'kidney_cancer')).toEqual(4);
+    expect(stageFromTNM(tnm('T2', 'N1'), 'pancreatic_cancer')).toEqual(2);
+    expect(stageFromTNM(tnm('T2', 'N1'), 'prostate_cancer')).toEqual(4);
+    // Prostate cancer staging also needs the PSA and grade group
+    expect(stageFromTNM(tnm('T2', 'N0'), 'prostate_cancer')).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  convertQuantity,
+  ucumUnitFor,
+  LENGTH_TO_CM,
+  MASS_CONCENTRATION_TO_NG_PER_ML,
+  UCUM_SYSTEM
+} from '../src/ucum';
+
+describe('ucumUnitFor()', () => {
+  it('prefers the code for UCUM quantities', () => {
+    expect(ucumUnitFor({ value: 1, unit: 'millimeters', system: UCUM_SYSTEM, code: 'mm' })).toEqual('mm');
+    expect(ucumUnitFor({ value: 1, code: 'mm' })).toEqual('mm');
+  });
+
+  it('falls back to the unit for non-UCUM quantities', () => {
+    expect(ucumUnitFor({ value: 1, unit: 'cm', system: 'http://www.example.com/units', code: 'x' })).toEqual('cm');
+    expect(ucumUnitFor({ value: 1, unit: 'Inches' })).toEqual('[in_i]');
+  });
+
+  it('returns null with no unit', () => {
+    expect(ucumUnitFor({ value: 1 })).toBeNull();
+  });
+});
+
+describe('convertQuantity()', () => {
+  it('converts lengths', () => {
+    expect(convertQuantity({ value: 25, system: UCUM_SYSTEM, code: 'mm' }, LENGTH_TO_CM)).toEqual(2.5);
+    expect(convertQuantity({ value: 3, system: UCUM_SYSTEM, code: 'cm' }, LENGTH_TO_CM)).toEqual(3);
+    expect(convertQuantity({ value: 2, system: UCUM_SYSTEM, code: '[in_i]' }, LENGTH_TO_CM)).toEqual(5.08);
+  });
+
+  it('converts mass concentrations', () => {
+    expect(convertQuantity({ value: 4.2, system: UCUM_SYSTEM, code: 'ng/mL' }, MASS_CONCENTRATION_TO_NG_PER_ML)).toEqual(4.2);
+    expect(convertQuantity({ value: 4.2, system: UCUM_SYSTEM, code: 'ug/L' }, MASS_CONCENTRATION_TO_NG_PER_ML)).toEqual(4.2);
+    expect(convertQuantity({ value: 4.2, unit: 'ng/ml' }, MASS_CONCENTRATION_TO_NG_PER_ML)).toEqual(4.2);
+    expect(convertQuantity({ value: 420, system: UCUM_SYSTEM, code: 'ng/dL' }, MASS_CONCENTRATION_TO_NG_PER_ML)).toEqual(4.2);
+  });
+
+  it('returns null for unknown units or missing values', () => {
+    expect(convertQuantity({ value: 25, system: UCUM_SYSTEM, code: 'kg' }, LENGTH_TO_CM)).toBeNull();
+    expect(convertQuantity({ value: 25 }, LENGTH_TO_CM)).toBeNull();
+    expect(convertQuantity({ system: UCUM_SYSTEM, code: 'mm' }, LENGTH_TO_CM)).toBeNull();
+    expect(convertQuantity({ value: NaN, system: UCUM_SYSTEM, code: 'mm' }, LENGTH_TO_CM)).toBeNull();
+    expect(convertQuantity(undefined, LENGTH_TO_CM)).toBeNull();
+  });
+});
@@ -8,6 +8,7 @@ export const RX_NORM_SYSTEM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
 export const SNOMED_CT_SYSTEM = 'http://snomed.info/sct';
 export const ICD_10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10';
 export const CANCERSTAGING_SYSTEM = 'http://cancerstaging.org';
+export const HGNC_SYSTEM = 'http://www.genenames.org/geneId';
 
 // Because the systems are all constant string values, typeof works to "extract"
 // the string value to a TypeScript type. This type is mainly used for "typo
@@ -16,9 +17,36 @@ export type FhirSystem = typeof LOINC_SYSTEM
     | typeof RX_NORM_SYSTEM
     | typeof SNOMED_CT_SYSTEM
     | typeof ICD_10_SYSTEM
-    | typeof CANCERSTAGING_SYSTEM;
+    | typeof CANCERSTAGING_SYSTEM
+    | typeof HGNC_SYSTEM;
 export type CodeMappings = Map<FhirSystem, string[]>;
 
+/**
+ * Other URIs that are used for the code systems above, mapped to the URI the
+ * mappings use. ICD-10-CM is treated as ICD-10 since the codes the mappings
+ * use are the same in both.
+ */
+export const codeSystemAliases = new Map<string, FhirSystem>([
+  // ICD-10-CM
+  ['http://hl7.org/fhir/sid/icd-10-cm', ICD_10_SYSTEM],
+  ['urn:oid:2.16.840.1.113883.6.90', ICD_10_SYSTEM],
+  // ICD-10 (WHO)
+  ['urn:oid:2.16.840.1.113883.6.3', ICD_10_SYSTEM],
+  ['urn:oid:2.16.840.1.113883.6.96', SNOMED_CT_SYSTEM],
+  ['urn:oid:2.16.840.1.113883.6.1', LOINC_SYSTEM],
+  ['urn:oid:2.16.840.1.113883.6.88', RX_NORM_SYSTEM],
+]);
+
+/**
+ * Normalizes a code system URI to the URI used within the mappings, if it's a
+ * known alias.
+ * @param system the system URI
+ * @returns the normalized system URI
+ */
+export function normalizeSystem(system: string | undefined): string | undefined {
+  return codeSystemAliases.get(system) ?? system;
+}
+
 /**
  * Map of Ancora criterions to FHIR codes
  */
@@ -149,6 +177,15 @@ export const ancoraCriterionCodes = new Map<AncoraCriterionFlag, CodeMappings>([
       ]
     ])
   ],
+  [
+    'brain_metastases',
+    new Map<FhirSystem, string[]>([
+      // Secondary malignant neoplasm of brain
+      [ SNOMED_CT_SYSTEM, ['94225005'] ],
+      // Secondary malignant neoplasm of brain, cerebral meninges
+      [ ICD_10_SYSTEM, ['C793', 'C7931', 'C7932'] ]
+    ])
+  ],
   [
     'breast_dcis',
     new Map<FhirSystem, string[]>([
@@ -865,6 +902,176 @@ export const ancoraCriterionCodes = new Map<AncoraCriterionFlag, CodeMappings>([
   ],
 ]);
 
+/**
+ * Map of Ancora criterions to the HGNC IDs of the genes they test. These are
+ * used with the "gene studied" component of mCODE CancerGeneticVariant
+ * observations rather than the observation code itself.
+ *
+ * FLT3 (HGNC:3765) is intentionally absent: the gene alone doesn't say whether
+ * the variant is an ITD or TKD mutation.
+ */
+export const ancoraGeneCodes = new Map<AncoraCriterionFlag, string[]>([
+  [ 'alk', ['HGNC:427'] ],
+  [ 'braf', ['HGNC:1097'] ],
+  [ 'brca1', ['HGNC:1100'] ],
+  [ 'brca2', ['HGNC:1101'] ],
+  [ 'egfr', ['HGNC:3236'] ],
+  [ 'fgfr2', ['HGNC:3689'] ],
+  // HER2 is the protein product of ERBB2
+  [ 'her2', ['HGNC:3430'] ],
+  [ 'hras', ['HGNC:5173'] ],
+  [ 'idh1', ['HGNC:5382'] ],
+  [ 'idh2', ['HGNC:5383'] ],
+  [ 'kras', ['HGNC:6407'] ],
+  [ 'nras', ['HGNC:7989'] ],
+  [ 'ros1', ['HGNC:10261'] ],
+]);
+
+/**
+ * Expands an ICD-10 category range (such as E10-E14) into the individual
+ * categories it covers. Both ends of the range must use the same letter.
+ */
+function icd10Categories(first: string, last: string): string[] {
+  const letter = first.charAt(0);
+  const categories: string[] = [];
+  for (let i = parseInt(first.substring(1)); i <= parseInt(last.substring(1)); i++) {
+    categories.push(letter + i.toString().padStart(2, '0'));
+  }
+  return categories;
+}
+
+/**
+ * Map of comorbidity (and other patient condition) criterions to codes. These
+ * are mostly used to exclude patients from trials. Unlike the other mappings,
+ * ICD-10 codes here are prefixes: E11 matches E11, E11.9, E119, and so on.
+ */
+export const ancoraComorbidityCodes = new Map<AncoraCriterionFlag, CodeMappings>([
+  [
+    'allergies_to_medication',
+    new Map<FhirSystem, string[]>([
+      // Allergy to drug, propensity to adverse reactions to drug
+      [ SNOMED_CT_SYSTEM, ['416098002', '419511003'] ],
+      // Allergy status to drugs, medicaments and biological substances
+      [ ICD_10_SYSTEM, ['Z88'] ]
+    ])
+  ],
+  [
+    'cardiac_disorders',
+    new Map<FhirSystem, string[]>([
+      [
+        SNOMED_CT_SYSTEM,
+        [
+          // Heart disease, coronary arteriosclerosis, heart failure,
+          // myocardial infarction, atrial fibrillation, cardiac arrhythmia
+          '56265001', '53741008', '84114007', '22298006', '49436004',
+          '698247007'
+        ]
+      ],
+      [
+        ICD_10_SYSTEM,
+        [
+          // Chronic rheumatic heart diseases
+          ...icd10Categories('I05', 'I09'),
+          // Ischemic heart diseases
+          ...icd10Categories('I20', 'I25'),
+          // Other forms of heart disease
+          ...icd10Categories('I30', 'I52')
+        ]
+      ]
+    ])
+  ],
+  [
+    'diabetes',
+    new Map<FhirSystem, string[]>([
+      // Diabetes mellitus, type 1, type 2
+      [ SNOMED_CT_SYSTEM, ['73211009', '46635009', '44054006'] ],
+      [ ICD_10_SYSTEM, icd10Categories('E10', 'E14') ]
+    ])
+  ],
+  [
+    'hiv',
+    new Map<FhirSystem, string[]>([
+      // HIV infection, AIDS, HIV positive
+      [ SNOMED_CT_SYSTEM, ['86406008', '62479008', '165816005'] ],
+      [
+        ICD_10_SYSTEM,
+        [
+          // HIV disease
+          ...icd10Categories('B20', 'B24'),
+          // Asymptomatic HIV infection status, HIV complicating pregnancy
+          'Z21', 'O987'
+        ]
+      ]
+    ])
+  ],
+  [
+    'kidney_diseases',
+    new Map<FhirSystem, string[]>([
+      [
+        SNOMED_CT_SYSTEM,
+        [
+          // Kidney disease, chronic kidney disease, acute renal failure,
+          // renal failure, end-stage renal disease
+          '90708001', '709044004', '14669001', '42399005', '46177005'
+        ]
+      ],
+      [
+        ICD_10_SYSTEM,
+        [
+          // Glomerular diseases
+          ...icd10Categories('N00', 'N08'),
+          // Acute kidney failure and chronic kidney disease
+          ...icd10Categories('N17', 'N19'),
+          // Other disorders of kidney and ureter
+          ...icd10Categories('N25', 'N28'),
+          // Hypertensive chronic kidney disease
+          'I12'
+        ]
+      ]
+    ])
+  ],
+  [
+    'liver_diseases',
+    new Map<FhirSystem, string[]>([
+      [
+        SNOMED_CT_SYSTEM,
+        [
+          // Disorder of liver, cirrhosis of liver, viral hepatitis B, viral
+          // hepatitis C, chronic hepatitis C, steatosis of liver
+          '235856003', '19943007', '66071002', '50711007', '128302006',
+          '197321007'
+        ]
+      ],
+      [
+        ICD_10_SYSTEM,
+        [
+          // Viral hepatitis
+          ...icd10Categories('B15', 'B19'),
+          // Diseases of liver
+          ...icd10Categories('K70', 'K77')
+        ]
+      ]
+    ])
+  ],
+  [
+    'pregnant_nursing',
+    new Map<FhirSystem, string[]>([
+      // Pregnancy, normal pregnancy
+      [ SNOMED_CT_SYSTEM, ['77386006', '72892002'] ],
+      [
+        ICD_10_SYSTEM,
+        [
+          // Pregnancy, childbirth and the puerperium
+          ...icd10Categories('O00', 'O99'),
+          // Pregnant state, supervision of normal pregnancy, care and
+          // examination of lactating mother
+          'Z331', 'Z34', 'Z391'
+        ]
+      ]
+    ])
+  ],
+]);
+
 export type AncoraQueryDisease = AncoraQuery['type_of_disease'];
 
 /**
@@ -3,23 +3,29 @@
  * boolean fields.
  */
 
-import { Observation } from 'fhir/r4';
-import { AncoraCriterionFlag } from './ancora-query';
+import { CodeableConcept, Coding, Condition, Observation, Patient } from 'fhir/r4';
+import { AncoraCriteria, AncoraCriterionFlag } from './ancora-query';
 import {
+  ancoraComorbidityCodes,
   ancoraCriterionCodes,
   ancoraDiseaseCodes,
+  ancoraGeneCodes,
   ancoraStageMappings,
   AncoraQueryDisease,
   FhirSystem,
-  CANCERSTAGING_SYSTEM
+  CANCERSTAGING_SYSTEM,
+  HGNC_SYSTEM,
+  ICD_10_SYSTEM,
+  LOINC_SYSTEM,
+  SNOMED_CT_SYSTEM,
+  normalizeSystem
 } from './ancora-mapping-data';
-
-// TODO: Don't know how to code the following:
-// CancerGeneticVariant component:GeneStudied valueCodeableConcept = HGNC
-// HGNC:427	ALK
-// CancerGeneticVariant component:GeneStudied valueCodeableConcept = HGNC
-// HGNC:10261	ROS1
-// etc.
+import {
+  convertQuantity,
+  LENGTH_TO_CM,
+  MASS_CONCENTRATION_TO_NG_PER_ML
+} from './ucum';
+import { parseTNMValue, TNMCategory, TNMValue } from './tnm';
 
 // With the existing mappings, the most common lookup is actually [system, code]
 // to an Ancora flag, so build that mapping
@@ -49,6 +55,19 @@ for (const [flag, mappings] of ancoraCriterionCodes.entries()) {
   }
 }
 
+// Gene codes are all HGNC, so they get added under that system
+for (const [flag, codes] of ancoraGeneCodes.entries()) {
+  const systemMappings = codeMappingFor(HGNC_SYSTEM);
+  for (const code of codes) {
+    const existing = systemMappings.get(code);
+    if (existing) {
+      existing.add(flag);
+    } else {
+      systemMappings.set(code, new Set<AncoraCriterionFlag>([flag]))
+    }
+  }
+}
+
 /**
  * Looks up all flags for a given code.
  * @param system the FHIR sysetm URI
@@ -57,14 +76,74 @@ for (const [flag, mappings] of ancoraCriterionCodes.entries()) {
  * flags
  */
 export function findQueryFlagsForCode(system: string, code: string): AncoraCriterionFlag[] | null {
-  // See if something exists
-  const mapping = codesToAncora.get(system);
-  if (mapping) {
-    const flag = mapping.get(code);
-    return flag ? Array.from(flag) : null;
-  } else {
+  return findFlagsForCode(codesToAncora, system, code);
+}
+
+/**
+ * Determine the codes to look up for a given code. ICD-10 codes are looked up
+ * by each prefix at least as long as a category, most specific first, without
+ * the dot (so C50.912 is looked up as C50912, C5091, C509, and C50). Other
+ * codes are looked up as-is.
+ * @param system the normalized system URI
+ * @param code the code
+ * @returns the codes to look up, in order
+ */
+function codesToLookUp(system: string, code: string): string[] {
+  if (system !== ICD_10_SYSTEM) {
+    return [code];
+  }
+  const normalized = code.replace('.', '').toUpperCase();
+  const codes: string[] = [];
+  for (let length = normalized.length; length >= 3; length--) {
+    codes.push(normalized.substring(0, length));
+  }
+  return codes;
+}
+
+function findFlagsForCode(mappings: Map<string, Map<string, Set<AncoraCriterionFlag>>>, system: string, code: string): AncoraCriterionFlag[] | null {
+  system = normalizeSystem(system);
+  const mapping = mappings.get(system);
+  if (!mapping || typeof code !== 'string') {
     return null;
   }
+  const flags = new Set<AncoraCriterionFlag>();
+  for (const lookupCode of codesToLookUp(system, code)) {
+    mapping.get(lookupCode)?.forEach((flag) => flags.add(flag));
+  }
+  return flags.size > 0 ? Array.from(flags) : null;
+}
+
+// Comorbidity codes are kept separate as their ICD-10 codes are prefixes
+const comorbidityCodesToAncora = new Map<string, Map<string, Set<AncoraCriterionFlag>>>();
+
+for (const [flag, mappings] of ancoraComorbidityCodes.entries()) {
+  for (const [system, codes] of mappings.entries()) {
+    let systemMappings = comorbidityCodesToAncora.get(system);
+    if (!systemMappings) {
+      systemMappings = new Map<string, Set<AncoraCriterionFlag>>();
+      comorbidityCodesToAncora.set(system, systemMappings);
+    }
+    for (const code of codes) {
+      const existing = systemMappings.get(code);
+      if (existing) {
+        existing.add(flag);
+      } else {
+        systemMappings.set(code, new Set<AncoraCriterionFlag>([flag]));
+      }
+    }
+  }
+}
+
+/**
+ * Looks up all comorbidity flags for a given code. ICD-10 codes match on their
+ * category, with or without the dot (E11.9 and E119 both match E11).
+ * @param system the FHIR system URI
+ * @param code the code to look up
+ * @returns null if the code is unknown, otherwise an array of all matching
+ * flags
+ */
+export function findComorbidityFlagsForCode(system: string, code: string): AncoraCriterionFlag[] | null {
+  return findFlagsForCode(comorbidityCodesToAncora, system, code);
 }
 
 // Ancora disease codes also need to be flipped around for use
@@ -84,7 +163,7 @@ for (const [disease, mappings] of ancoraDiseaseCodes) {
     const diseaseMappings = diseaseMappingFor(system);
     for (const code of codes) {
       // Check for accidental duplicates
-      const existing = findDiseaseTypeForCode(system, code);
+      const existing = diseaseMappings.get(code);
       // This is a sanity check and the if never happening is expected
       /* istanbul ignore if */
       if (existing) {
@@ -96,9 +175,27 @@ for (const [disease, mappings] of ancoraDiseaseCodes) {
   }
 }
 
+/**
+ * Looks up the type of disease for a given code. ICD-10 codes match on the
+ * most specific mapped prefix, with or without the dot.
+ * @param system the FHIR system URI
+ * @param code the code to look up
+ * @returns the type of disease or null if the code is unknown
+ */
 export function findDiseaseTypeForCode(system: string, code: string): AncoraQueryDisease | null {
+  system = normalizeSystem(system);
   // Look up the system, then, if it exists, the code - otherwise, resolve to null
-  return codesToDiseaseType.get(system)?.get(code) ?? null;
+  const mapping = codesToDiseaseType.get(system);
+  if (!mapping || typeof code !== 'string') {
+    return null;
+  }
+  for (const lookupCode of codesToLookUp(system, code)) {
+    const diseaseType = mapping.get(lookupCode);
+    if (diseaseType !== undefined) {
+      return diseaseType;
+    }
+  }
+  return null;
 }
 
 // Tumor Stage mappings
@@ -151,6 +248,7 @@ export function tumorStageForCode(system: string | undefined, code: string | und
   if (typeof system === 'undefined' || typeof code === 'undefined') {
     return undefined;
   }
+  system = normalizeSystem(system);
   return codesToTumorStages.get(system)?.get(normalizeCode(system, code));
 }
 
@@ -187,3 +285,730 @@ export function findTumorStage(observation: Observation): number | null {
   }
   return null;
 }
+
+/**
+ * LOINC codes for the clinical and pathologic TNM category observations.
+ */
+const TNM_LOINC_CODES = new Map<string, TNMCategory>([
+  ['21905-5', 'T'], ['21899-0', 'T'],
+  ['21906-3', 'N'], ['21900-6', 'N'],
+  ['21907-1', 'M'], ['21901-4', 'M'],
+]);
+
+/**
+ * If the given Observation is a TNM category (T, N, or M) observation with a
+ * recognized value, return that value, otherwise, return null. Values are
+ * read from AJCC (cancerstaging.org) codes, falling back to the display text
+ * of other codings (for example "AJCC cT3").
+ * @param observation the observation to inspect
+ * @return the TNM value or null if there is none
+ */
+export function findTNMCategory(observation: Observation): TNMValue | null {
+  const coding = observation.code?.coding;
+  if (!Array.isArray(coding)) {
+    return null;
+  }
+  const category = coding.map((value) => TNM_LOINC_CODES.get(value.code)).find((value) => value !== undefined);
+  if (category === undefined) {
+    return null;
+  }
+  const valueCodes = observation.valueCodeableConcept?.coding;
+  if (Array.isArray(valueCodes)) {
+    for (const code of valueCodes) {
+      const value = code.system === CANCERSTAGING_SYSTEM ? parseTNMValue(code.code, category) : parseTNMValue(code.display, category);
+      if (value !== null) {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+// Genetic variant mappings
+
+/**
+ * LOINC code for the "gene studied" component of a CancerGeneticVariant.
+ */
+const GENE_STUDIED_LOINC_CODES = new Set<string>(['48018-6']);
+
+/**
+ * LOINC code for the "genetic variation clinical significance" component.
+ */
+const CLINICAL_SIGNIFICANCE_LOINC_CODES = new Set<string>(['53037-8']);
+
+/**
+ * LOINC codes for components that describe the variant that was found: the
+ * discrete variant, DNA change (c.HGVS), amino acid change (p.HGVS), genomic
+ * DNA change (g.HGVS), and DNA change type. If any of these has a value, a
+ * variant was found.
+ */
+const VARIANT_LOINC_CODES = new Set<string>([
+  '81252-9', '48004-6', '48005-3', '81290-9', '48019-4'
+]);
+
+/**
+ * LOINC answer codes for clinical significance mapped to whether the variant
+ * counts as positive. Variants of uncertain significance (LA26333-7) are
+ * deliberately absent as they say nothing either way.
+ */
+const clinicalSignificanceAnswers = new Map<string, boolean>([
+  // Pathogenic
+  ['LA6668-3', true],
+  // Likely pathogenic
+  ['LA26332-9', true],
+  // Likely benign
+  ['LA26334-5', false],
+  // Benign
+  ['LA6675-8', false],
+]);
+
+/**
+ * Known answers for the value of a variant assessment, by system.
+ */
+const variantPresenceAnswers = new Map<string, Map<string, boolean>>([
+  [
+    LOINC_SYSTEM,
+    new Map<string, boolean>([
+      // Present
+      ['LA9633-4', true],
+      // Absent
+      ['LA9634-2', false],
+    ])
+  ],
+  [
+    SNOMED_CT_SYSTEM,
+    new Map<string, boolean>([
+      // Positive
+      ['10828004', true],
+      // Negative
+      ['260385009', false],
+    ])
+  ]
+]);
+
+/**
+ * Determines if the given system is an HGNC system. mCODE STU1 used the plain
+ * genenames.org URL while later versions use the geneId one.
+ */
+function isHgncSystem(system: string | undefined): boolean {
+  return system === HGNC_SYSTEM || system === 'http://www.genenames.org';
+}
+
+/**
+ * Normalize an HGNC ID to the "HGNC:nnn" form used in the mappings.
+ */
+function normalizeHgncCode(code: string): string {
+  return code.toUpperCase().startsWith('HGNC:') ? code.toUpperCase() : `HGNC:${code}`;
+}
+
+function hasLoincCode(concept: CodeableConcept | undefined, codes: Set<string>): boolean {
+  const coding = concept?.coding;
+  return Array.isArray(coding) && coding.some((c) => normalizeSystem(c?.system) === LOINC_SYSTEM && codes.has(c.code));
+}
+
+function findAnswer<T>(concept: CodeableConcept | undefined, answers: Map<string, Map<string, T>>): T | null {
+  const coding = concept?.coding;
+  if (Array.isArray(coding)) {
+    for (const code of coding) {
+      const answer = answers.get(normalizeSystem(code?.system))?.get(code.code);
+      if (answer !== undefined) {
+        return answer;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The result of examining a genetic variant observation.
+ */
+export interface GeneticVariantResult {
+  /**
+   * Flags for the gene(s) studied
+   */
+  flags: AncoraCriterionFlag[];
+  /**
+   * Whether the variant should be treated as a positive or negative result
+   */
+  positive: boolean;
+}
+
+/**
+ * If the given Observation is a CancerGeneticVariant with a known gene studied
+ * and a result that can be determined to be positive or negative, returns the
+ * flags for that gene and the result. Otherwise returns null.
+ * @param observation the observation to inspect
+ */
+export function findGeneticVariant(observation: Observation): GeneticVariantResult | null {
+  if (!Array.isArray(observation.component)) {
+    return null;
+  }
+  const flags = new Set<AncoraCriterionFlag>();
+  let significance: boolean | null = null;
+  let variantFound = false;
+  for (const component of observation.component) {
+    if (typeof component !== 'object' || component === null) {
+      continue;
+    }
+    if (hasLoincCode(component.code, GENE_STUDIED_LOINC_CODES)) {
+      const genes = component.valueCodeableConcept?.coding;
+      if (Array.isArray(genes)) {
+        for (const gene of genes) {
+          if (isHgncSystem(gene?.system) && typeof gene.code === 'string') {
+            const geneFlags = findQueryFlagsForCode(HGNC_SYSTEM, normalizeHgncCode(gene.code));
+            if (geneFlags) {
+              geneFlags.forEach((flag) => flags.add(flag));
+            }
+          }
+        }
+      }
+    } else if (hasLoincCode(component.code, CLINICAL_SIGNIFICANCE_LOINC_CODES)) {
+      const coding = component.valueCodeableConcept?.coding;
+      if (Array.isArray(coding)) {
+        for (const code of coding) {
+          const answer = clinicalSignificanceAnswers.get(code?.code);
+          if (typeof answer === 'boolean') {
+            significance = answer;
+          }
+        }
+      }
+    } else if (hasLoincCode(component.code, VARIANT_LOINC_CODES)) {
+      if (component.valueCodeableConcept || typeof component.valueString === 'string') {
+        variantFound = true;
+      }
+    }
+  }
+  if (flags.size === 0) {
+    return null;
+  }
+  // Clinical significance takes precedence: a benign variant isn't a positive
+  // result for the purposes of trial matching
+  let positive = significance ?? findAnswer(observation.valueCodeableConcept, variantPresenceAnswers);
+  if (positive === null && variantFound) {
+    positive = true;
+  }
+  return positive === null ? null : { flags: Array.from(flags), positive };
+}
+
+// Tumor size
+
+/**
+ * LOINC codes for tumor size: 21889-1 is the code for the mCODE TumorSize
+ * observation itself, 33728-7 is the maximum (longest) dimension and 33729-5
+ * is an additional dimension. These are used both as the observation code and
+ * as component codes.
+ */
+const TUMOR_SIZE_LOINC_CODES = new Set<string>(['21889-1', '33728-7', '33729-5']);
+
+/**
+ * The maximum tumor size Ancora accepts, in centimeters.
+ */
+const MAX_TUMOR_SIZE = 35;
+
+/**
+ * If a tumor size can be determined from the given Observation, return it in
+ * centimeters, clamped to the range Ancora accepts (0-35). When the size is
+ * given as multiple dimension components, the longest one is used.
+ * @param observation the observation to inspect
+ * @return the tumor size in centimeters or null if none could be found
+ */
+export function findTumorSize(observation: Observation): number | null {
+  if (!hasLoincCode(observation.code, TUMOR_SIZE_LOINC_CODES)) {
+    return null;
+  }
+  let size = convertQuantity(observation.valueQuantity, LENGTH_TO_CM);
+  if (Array.isArray(observation.component)) {
+    for (const component of observation.component) {
+      if (typeof component !== 'object' || component === null) {
+        continue;
+      }
+      if (hasLoincCode(component.code, TUMOR_SIZE_LOINC_CODES)) {
+        const dimension = convertQuantity(component.valueQuantity, LENGTH_TO_CM);
+        if (dimension !== null && (size === null || dimension > size)) {
+          size = dimension;
+        }
+      }
+    }
+  }
+  return size === null ? null : Math.max(0, Math.min(MAX_TUMOR_SIZE, size));
+}
+
+// PSA
+
+/**
+ * LOINC codes for total PSA in serum or plasma: the plain mass/volume result,
+ * the ultrasensitive (detection limit <= 0.01 ng/mL) result, and the
+ * immunoassay result. Free PSA and PSA ratios are intentionally not included.
+ */
+const PSA_LOINC_CODES = new Set<string>(['2857-1', '35741-8', '83112-3']);
+
+/**
+ * The maximum PSA value Ancora accepts, in ng/mL.
+ */
+const MAX_PSA = 100;
+
+/**
+ * If the given Observation is a total PSA result, return the value in ng/mL,
+ * clamped to the range Ancora accepts (0-100).
+ * @param observation the observation to inspect
+ * @return the PSA value or null if this isn't a PSA result with a usable value
+ */
+export function findPSA(observation: Observation): number | null {
+  if (!hasLoincCode(observation.code, PSA_LOINC_CODES)) {
+    return null;
+  }
+  const psa = convertQuantity(observation.valueQuantity, MASS_CONCENTRATION_TO_NG_PER_ML);
+  return psa === null ? null : Math.max(0, Math.min(MAX_PSA, psa));
+}
+
+// Disease status
+
+/**
+ * LOINC codes for the mCODE CancerDiseaseStatus observation: 97509-4 is used
+ * by mCODE STU2 and later, 88040-1 by STU1.
+ */
+const DISEASE_STATUS_LOINC_CODES = new Set<string>(['97509-4', '88040-1']);
+
+/**
+ * The hematologic treatment stages that can be determined from a disease
+ * status.
+ */
+export type DiseaseStatusStage = 'remission' | 'relapsed';
+
+/**
+ * SNOMED CT disease status values mapped to the treatment stage they indicate.
+ * Statuses like "improved" or "stable" say nothing about the treatment stage
+ * and are intentionally absent, as is "worsened": progression during
+ * treatment is not a relapse.
+ */
+const diseaseStatusStages = new Map<string, DiseaseStatusStage>([
+  // Malignant neoplasm in full remission
+  ['550991000124107', 'remission'],
+  // Malignant neoplasm in partial remission
+  ['551001000124108', 'remission'],
+  // Remission phase
+  ['277022003', 'remission'],
+  // Relapse phase
+  ['263855007', 'relapsed'],
+]);
+
+/**
+ * If the given Observation is a CancerDiseaseStatus with a value that
+ * indicates a treatment stage, return that stage.
+ * @param observation the observation to inspect
+ * @return the treatment stage or null if none could be determined
+ */
+export function findDiseaseStatusStage(observation: Observation): DiseaseStatusStage | null {
+  return findDiseaseStatusValue(observation, diseaseStatusStages);
+}
+
+/**
+ * SNOMED CT disease status values mapped to whether they indicate the disease
+ * is controlled.
+ */
+const diseaseStatusControl = new Map<string, boolean>([
+  // Patient's condition improved
+  ['268910001', true],
+  // Patient's condition stable
+  ['359746009', true],
+  // Patient's condition worsened
+  ['271299001', false],
+]);
+
+/**
+ * If the given Observation is a CancerDiseaseStatus with a value that
+ * indicates whether the disease is under control, return that.
+ * @param observation the observation to inspect
+ * @return true if controlled, false if not, null if it can't be determined
+ */
+export function findDiseaseStatusControlled(observation: Observation): boolean | null {
+  return findDiseaseStatusValue(observation, diseaseStatusControl);
+}
+
+function findDiseaseStatusValue<T>(observation: Observation, values: Map<string, T>): T | null {
+  if (!hasLoincCode(observation.code, DISEASE_STATUS_LOINC_CODES)) {
+    return null;
+  }
+  const coding = observation.valueCodeableConcept?.coding;
+  if (Array.isArray(coding)) {
+    for (const code of coding) {
+      if (normalizeSystem(code?.system) === SNOMED_CT_SYSTEM) {
+        const value = values.get(code.code);
+        if (value !== undefined) {
+          return value;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Brain metastases
+
+const SECONDARY_CANCER_CONDITION_PROFILE =
+  'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-secondary-cancer-condition';
+
+/**
+ * SNOMED CT body sites that are part of the central nervous system: brain
+ * structure, central nervous system structure, and meninges structure.
+ */
+const CNS_BODY_SITE_CODES = new Set<string>(['12738006', '21483005', '1231004']);
+
+/**
+ * Determines if the given Condition indicates cancer in the brain or CNS:
+ * either its code is a brain metastasis code, or it is an mCODE
+ * SecondaryCancerCondition with a brain or CNS body site.
+ * @param condition the condition to check
+ */
+export function isBrainMetastasis(condition: Condition): boolean {
+  const coding = condition.code?.coding;
+  if (
+    Array.isArray(coding) &&
+    coding.some((code) =>
+      typeof code?.system === 'string' &&
+      typeof code.code === 'string' &&
+      findQueryFlagsForCode(code.system, code.code)?.includes('brain_metastases')
+    )
+  ) {
+    return true;
+  }
+  const profiles = condition.meta?.profile;
+  if (!(Array.isArray(profiles) && profiles.includes(SECONDARY_CANCER_CONDITION_PROFILE))) {
+    return false;
+  }
+  if (Array.isArray(condition.bodySite)) {
+    for (const bodySite of condition.bodySite) {
+      const bodySiteCoding = bodySite?.coding;
+      if (
+        Array.isArray(bodySiteCoding) &&
+        bodySiteCoding.some((code) => normalizeSystem(code?.system) === SNOMED_CT_SYSTEM && CNS_BODY_SITE_CODES.has(code.code))
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Clinical status codes mapped to whether they indicate the condition is
+ * controlled. "Active" is intentionally absent: it means the condition is
+ * present, not that it is uncontrolled (treated, stable brain metastases are
+ * still active).
+ */
+const clinicalStatusControl = new Map<string, boolean>([
+  ['recurrence', false],
+  ['relapse', false],
+  ['inactive', true],
+  ['remission', true],
+  ['resolved', true],
+]);
+
+/**
+ * Determine whether a condition is controlled based on its clinical status.
+ * @param condition the condition to check
+ * @return true if controlled, false if not, null if there's no known status
+ */
+export function isConditionControlled(condition: Condition): boolean | null {
+  const coding = condition.clinicalStatus?.coding;
+  if (Array.isArray(coding)) {
+    for (const code of coding) {
+      if (code?.system === 'http://terminology.hl7.org/CodeSystem/condition-clinical') {
+        const controlled = clinicalStatusControl.get(code.code);
+        if (controlled !== undefined) {
+          return controlled;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Pregnancy and menopausal status
+
+/**
+ * LOINC codes for pregnancy status observations (as observed and as reported).
+ */
+const PREGNANCY_STATUS_LOINC_CODES = new Set<string>(['82810-3', '11449-6']);
+
+/**
+ * LOINC answers for pregnancy status. "Unknown" (LA4489-6) is intentionally
+ * absent.
+ */
+const pregnancyStatusAnswers = new Map<string, Map<string, boolean>>([
+  [
+    LOINC_SYSTEM,
+    new Map<string, boolean>([
+      // Pregnant
+      ['LA15173-0', true],
+      // Not pregnant
+      ['LA26683-5', false],
+    ])
+  ]
+]);
+
+/**
+ * If the given Observation is a pregnancy status, return whether the patient
+ * is pregnant.
+ * @param observation the observation to inspect
+ * @return true if pregnant, false if not, null if it can't be determined
+ */
+export function findPregnancyStatus(observation: Observation): boolean | null {
+  if (!hasLoincCode(observation.code, PREGNANCY_STATUS_LOINC_CODES)) {
+    return null;
+  }
+  return findAnswer(observation.valueCodeableConcept, pregnancyStatusAnswers);
+}
+
+export type MenopausalStatus = 'premenopausal' | 'postmenopausal';
+
+/**
+ * Codes for menopausal status findings, for use both as Condition codes and
+ * as the values of menopausal status observations. ICD-10 codes are given
+ * without the dot. ICD-10 has no code for a premenopausal state.
+ */
+const menopausalStatusCodes = new Map<string, Map<string, MenopausalStatus>>([
+  [
+    SNOMED_CT_SYSTEM,
+    new Map<string, MenopausalStatus>([
+      // Premenopausal state
+      ['289903006', 'premenopausal'],
+      // Postmenopausal state
+      ['76498008', 'postmenopausal'],
+    ])
+  ],
+  [
+    ICD_10_SYSTEM,
+    new Map<string, MenopausalStatus>([
+      // Menopausal and female climacteric states
+      ['N951', 'postmenopausal'],
+      // Asymptomatic menopausal state
+      ['Z780', 'postmenopausal'],
+    ])
+  ]
+]);
+
+/**
+ * Determine the menopausal status indicated by a set of codes.
+ * @param coding the codes to check
+ * @return the status or null if none of the codes indicate one
+ */
+export function findMenopausalStatus(coding: Coding[] | undefined): MenopausalStatus | null {
+  if (!Array.isArray(coding)) {
+    return null;
+  }
+  for (const code of coding) {
+    if (typeof code?.system !== 'string' || typeof code.code !== 'string') {
+      continue;
+    }
+    const system = normalizeSystem(code.system);
+    const normalized = system === ICD_10_SYSTEM ? code.code.replace('.', '').toUpperCase() : code.code;
+    const status = menopausalStatusCodes.get(system)?.get(normalized);
+    if (status) {
+      return status;
+    }
+  }
+  return null;
+}
+
+/**
+ * LOINC codes for menopausal status observations.
+ */
+const MENOPAUSAL_STATUS_LOINC_CODES = new Set<string>(['42798-9']);
+
+/**
+ * If the given Observation is a menopausal status, return the status.
+ * @param observation the observation to inspect
+ * @return the status or null if it can't be determined
+ */
+export function findObservedMenopausalStatus(observation: Observation): MenopausalStatus | null {
+  if (!hasLoincCode(observation.code, MENOPAUSAL_STATUS_LOINC_CODES)) {
+    return null;
+  }
+  return findMenopausalStatus(observation.valueCodeableConcept?.coding);
+}
+
+// Performance status
+
+export type PerformanceStatusCriterion = 'ecog' | 'karnofsky';
+
+export interface PerformanceStatus {
+  criterion: PerformanceStatusCriterion;
+  score: number;
+}
+
+/**
+ * LOINC codes for performance status observations.
+ */
+const performanceStatusLoincCodes = new Map<string, PerformanceStatusCriterion>([
+  ['89247-1', 'ecog'],
+  ['89243-0', 'karnofsky'],
+]);
+
+/**
+ * LOINC answers (answer list LL529-9) for ECOG performance status. "Dead"
+ * (LA9627-6) is intentionally absent.
+ */
+const ecogAnswers = new Map<string, Map<string, number>>([
+  [
+    LOINC_SYSTEM,
+    new Map<string, number>([
+      ['LA9622-7', 0],
+      ['LA9623-5', 1],
+      ['LA9624-3', 2],
+      ['LA9625-0', 3],
+      ['LA9626-8', 4],
+    ])
+  ]
+]);
+
+/**
+ * If the given Observation is an ECOG or Karnofsky performance status, return
+ * the score. ECOG scores may be given either as an integer or as a LOINC
+ * answer code.
+ * @param observation the observation to inspect
+ * @return the performance status or null if there is none
+ */
+export function findPerformanceStatus(observation: Observation): PerformanceStatus | null {
+  const coding = observation.code?.coding;
+  if (!Array.isArray(coding)) {
+    return null;
+  }
+  const criterion = coding
+    .map((code) => normalizeSystem(code?.system) === LOINC_SYSTEM ? performanceStatusLoincCodes.get(code.code) : undefined)
+    .find((value) => value !== undefined);
+  if (criterion === undefined) {
+    return null;
+  }
+  if (typeof observation.valueInteger === 'number') {
+    return { criterion, score: observation.valueInteger };
+  }
+  if (criterion === 'ecog') {
+    const score = findAnswer(observation.valueCodeableConcept, ecogAnswers);
+    if (score !== null) {
+      return { criterion, score };
+    }
+  }
+  return null;
+}
+
+/**
+ * Karnofsky scores for each ECOG score. Each ECOG score covers a range of
+ * Karnofsky scores (ECOG 1 is Karnofsky 70-80, for example) and the top of
+ * the range is used so that a converted score never excludes a patient from
+ * a trial their recorded score would allow.
+ */
+const ecogToKarnofskyScores = [100, 80, 60, 40, 20];
+
+/**
+ * Converts an ECOG score to the equivalent Karnofsky score.
+ * @param ecog the ECOG score
+ * @return the Karnofsky score or null if the ECOG score is out of range
+ */
+export function ecogToKarnofsky(ecog: number): number | null {
+  return ecogToKarnofskyScores[ecog] ?? null;
+}
+
+/**
+ * Converts a Karnofsky score to the equivalent ECOG score (100-90 is ECOG 0,
+ * 80-70 is ECOG 1, 60-50 is ECOG 2, 40-30 is ECOG 3, 20-10 is ECOG 4).
+ * @param karnofsky the Karnofsky score
+ * @return the ECOG score or null if the Karnofsky score is out of range
+ */
+export function karnofskyToEcog(karnofsky: number): number | null {
+  if (isNaN(karnofsky) || karnofsky < 10 || karnofsky > 100) {
+    return null;
+  }
+  return karnofsky >= 90 ? 0 : karnofsky >= 70 ? 1 : karnofsky >= 50 ? 2 : karnofsky >= 30 ? 3 : 4;
+}
+
+// Natal sex
+
+export type NatalSex = Required<AncoraCriteria>['natal_sex'];
+
+/**
+ * URL of the US Core birth sex extension on Patient.
+ */
+export const US_CORE_BIRTH_SEX_EXTENSION_URL = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-birthsex';
+
+/**
+ * Values of the US Core birth sex extension. Unknown (UNK) is intentionally
+ * absent.
+ */
+const birthSexCodes = new Map<string, NatalSex>([
+  ['M', 'male'],
+  ['F', 'female'],
+]);
+
+/**
+ * LOINC code for a sex assigned at birth observation.
+ */
+const SEX_ASSIGNED_AT_BIRTH_LOINC_CODES = new Set<string>(['76689-9']);
+
+/**
+ * Known answers for sex assigned at birth, by system. Unknown, other and
+ * undifferentiated answers are intentionally absent.
+ */
+const sexAssignedAtBirthAnswers = new Map<string, Map<string, NatalSex>>([
+  [
+    LOINC_SYSTEM,
+    new Map<string, NatalSex>([
+      ['LA2-8', 'male'],
+      ['LA3-6', 'female'],
+    ])
+  ],
+  [
+    SNOMED_CT_SYSTEM,
+    new Map<string, NatalSex>([
+      ['248153007', 'male'],
+      ['248152002', 'female'],
+    ])
+  ],
+  [
+    'http://hl7.org/fhir/administrative-gender',
+    new Map<string, NatalSex>([
+      ['male', 'male'],
+      ['female', 'female'],
+    ])
+  ],
+  [
+    'http://terminology.hl7.org/CodeSystem/v3-AdministrativeGender',
+    new Map<string, NatalSex>([
+      ['M', 'male'],
+      ['F', 'female'],
+    ])
+  ],
+]);
+
+/**
+ * Determines the patient's natal sex from the US Core birth sex extension.
+ * @param patient the patient to inspect
+ * @return the natal sex or null if there is no known birth sex
+ */
+export function findBirthSex(patient: Patient): NatalSex | null {
+  if (!Array.isArray(patient.extension)) {
+    return null;
+  }
+  for (const extension of patient.extension) {
+    if (extension?.url === US_CORE_BIRTH_SEX_EXTENSION_URL) {
+      const natalSex = birthSexCodes.get(extension.valueCode);
+      if (natalSex !== undefined) {
+        return natalSex;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * If the given Observation is a sex assigned at birth observation, return the
+ * patient's natal sex.
+ * @param observation the observation to inspect
+ * @return the natal sex or null if it can't be determined
+ */
+export function findSexAssignedAtBirth(observation: Observation): NatalSex | null {
+  if (!hasLoincCode(observation.code, SEX_ASSIGNED_AT_BIRTH_LOINC_CODES)) {
+    return null;
+  }
+  return findAnswer(observation.valueCodeableConcept, sexAssignedAtBirthAnswers);
+}
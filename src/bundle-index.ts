@@ -0,0 +1,150 @@
+/**
+ * Index of the resources within a bundle, used to resolve references between
+ * them.
+ */
+
+import util from 'node:util';
+import { Bundle, FhirResource, Reference } from 'fhir/r4';
+
+let debuglog: util.DebugLoggerFunction = util.debuglog('ancora', (logger) => {
+  debuglog = logger;
+});
+
+/**
+ * Matches the ResourceType/id part at the end of an absolute or relative
+ * reference, ignoring any version (/_history/n).
+ */
+const RELATIVE_REFERENCE_PATTERN =
+  /(?:^|\/)([A-Z][A-Za-z]+\/[A-Za-z0-9\-.]{1,64})(?:\/_history\/[^/]+)?$/;
+
+export class BundleIndex {
+  /**
+   * Every resource within the bundle, in order, including the resources
+   * within nested bundles (but not the nested bundles themselves).
+   */
+  resources: FhirResource[] = [];
+  /**
+   * Resources by their full URL and by their relative reference
+   * (ResourceType/id).
+   */
+  _resourcesByReference = new Map<string, FhirResource>();
+  /**
+   * The reference used for each resource: its full URL if it has one,
+   * otherwise its relative reference.
+   */
+  _referencesByResource = new Map<FhirResource, string>();
+
+  /**
+   * Creates the index.
+   * @param bundle the bundle to index
+   */
+  constructor(bundle: Bundle) {
+    this._addBundle(bundle);
+  }
+
+  _addBundle(bundle: Bundle): void {
+    if (!Array.isArray(bundle.entry)) {
+      return;
+    }
+    for (const entry of bundle.entry) {
+      const resource = entry?.resource;
+      if (typeof resource !== 'object' || resource === null) {
+        // Skip bad entries
+        continue;
+      }
+      if (resource.resourceType === 'Bundle') {
+        this._addBundle(resource);
+        continue;
+      }
+      this.resources.push(resource);
+      const references: string[] = [];
+      if (typeof entry.fullUrl === 'string') {
+        references.push(entry.fullUrl);
+      }
+      if (typeof resource.id === 'string') {
+        references.push(`${resource.resourceType}/${resource.id}`);
+      }
+      for (const reference of references) {
+        this._addReference(reference, resource);
+      }
+      if (references.length > 0 && !this._referencesByResource.has(resource)) {
+        this._referencesByResource.set(resource, references[0]);
+      }
+    }
+  }
+
+  _addReference(reference: string, resource: FhirResource): void {
+    const existing = this._resourcesByReference.get(reference);
+    if (existing !== undefined && existing !== resource) {
+      // Keep the first, as there's no way to tell which one was meant
+      debuglog('Duplicate resource for %s, using the first one', reference);
+      return;
+    }
+    this._resourcesByReference.set(reference, resource);
+  }
+
+  /**
+   * Resolves a reference to a resource. Contained references (#id) are
+   * resolved within the resource the reference is from. Other references
+   * are resolved by full URL, then by their ResourceType/id part.
+   * @param reference the reference (or reference string) to resolve
+   * @param from the resource the reference is from, for contained references
+   * @returns the resource or undefined if it couldn't be found
+   */
+  resolve(
+    reference: Reference | string | undefined,
+    from?: FhirResource
+  ): FhirResource | undefined {
+    const referenceString =
+      typeof reference === 'string' ? reference : reference?.reference;
+    if (typeof referenceString !== 'string') {
+      return undefined;
+    }
+    if (referenceString.startsWith('#')) {
+      const id = referenceString.substring(1);
+      const contained =
+        from && 'contained' in from && Array.isArray(from.contained)
+          ? from.contained
+          : [];
+      return contained.find((resource) => resource.id === id);
+    }
+    const resource = this._resourcesByReference.get(referenceString);
+    if (resource !== undefined) {
+      return resource;
+    }
+    const relative = RELATIVE_REFERENCE_PATTERN.exec(referenceString)?.[1];
+    return relative === undefined
+      ? undefined
+      : this._resourcesByReference.get(relative);
+  }
+
+  /**
+   * Gets the reference to use for a resource within the bundle.
+   * @param resource the resource
+   * @returns the full URL of the resource if it has one, otherwise its
+   *   ResourceType/id, or undefined if it isn't in the bundle (such as a
+   *   contained resource) or has neither
+   */
+  referenceFor(resource: FhirResource): string | undefined {
+    return this._referencesByResource.get(resource);
+  }
+
+  /**
+   * Resolves a reference to a resource of a given type.
+   * @param reference the reference (or reference string) to resolve
+   * @param resourceType the type of resource expected
+   * @param from the resource the reference is from, for contained references
+   * @returns the resource or undefined if it couldn't be found or is not of
+   *   the expected type
+   */
+  resolveAs<T extends FhirResource['resourceType']>(
+    reference: Reference | string | undefined,
+    resourceType: T,
+    from?: FhirResource
+  ): Extract<FhirResource, { resourceType: T }> | undefined {
+    const resource = this.resolve(reference, from);
+    return resource?.resourceType === resourceType
+      ? (resource as Extract<FhirResource, { resourceType: T }>)
+      : undefined;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Validation of the numeric criteria against the ranges Ancora documents for
+ * them, so that bad data (such as an ECOG score of 40 entered in the wrong
+ * field) is never sent to Ancora.
+ */
+
+import { AncoraCriteria } from './ancora-query';
+
+/**
+ * The numeric criteria.
+ */
+export type NumericCriterion = {
+  [K in keyof AncoraCriteria]-?: Required<AncoraCriteria>[K] extends number
+    ? K
+    : never;
+}[keyof AncoraCriteria];
+
+/**
+ * What to do with a value outside the range: "clamp" replaces it with the
+ * nearest value within the range, "drop" removes the criterion entirely.
+ */
+export type RangePolicy = 'clamp' | 'drop';
+
+export interface CriterionRange {
+  min: number;
+  max: number;
+  policy: RangePolicy;
+  /**
+   * If set, values that aren't whole numbers are dropped.
+   */
+  integer?: boolean;
+}
+
+/**
+ * The ranges of the numeric criteria. Measurements beyond the range (a very
+ * old patient, a very large tumor, a very high PSA) are still meaningful so
+ * they're clamped. Scores and stages outside the range can only be bad data,
+ * so they're dropped.
+ */
+export const CRITERION_RANGES: Record<NumericCriterion, CriterionRange> = {
+  age: { min: 1, max: 100, policy: 'clamp' },
+  tumor_size: { min: 0, max: 35, policy: 'clamp' },
+  psa: { min: 0, max: 100, policy: 'clamp' },
+  tumor_stage: { min: 0, max: 4, policy: 'drop', integer: true },
+  ecog: { min: 0, max: 4, policy: 'drop', integer: true },
+  karnofsky: { min: 10, max: 100, policy: 'drop' },
+};
+
+/**
+ * A problem found with a criterion value.
+ */
+export interface CriterionWarning {
+  criterion: keyof AncoraCriteria;
+  /**
+   * The value as it was before validation.
+   */
+  value: unknown;
+  /**
+   * What was done about it.
+   */
+  action: 'clamped' | 'dropped';
+  message: string;
+}
+
+export interface CriteriaValidationResult {
+  /**
+   * The validated criteria. This is always a copy, the original criteria are
+   * never modified.
+   */
+  criteria: AncoraCriteria;
+  warnings: CriterionWarning[];
+}
+
+export interface CriterionValidationResult {
+  /**
+   * The validated value, which is undefined if the value was dropped.
+   */
+  value: unknown;
+  warning: CriterionWarning | null;
+}
+
+/**
+ * Validates a single criterion value against its range. Criteria without a
+ * range are always valid.
+ * @param criterion the criterion the value is for
+ * @param value the value to validate
+ * @param ranges the ranges to validate against
+ * @returns the validated value and a warning if it was clamped or dropped
+ */
+export function validateCriterion(
+  criterion: keyof AncoraCriteria,
+  value: unknown,
+  ranges: Record<NumericCriterion, CriterionRange> = CRITERION_RANGES
+): CriterionValidationResult {
+  const range = (ranges as Partial<Record<string, CriterionRange>>)[criterion];
+  if (range === undefined || value === undefined) {
+    return { value, warning: null };
+  }
+  if (typeof value !== 'number' || !isFinite(value)) {
+    return {
+      value: undefined,
+      warning: {
+        criterion,
+        value,
+        action: 'dropped',
+        message: `${criterion} of ${String(value)} is not a number`,
+      },
+    };
+  }
+  if (range.integer && !Number.isInteger(value)) {
+    return {
+      value: undefined,
+      warning: {
+        criterion,
+        value,
+        action: 'dropped',
+        message: `${criterion} of ${value} is not a whole number`,
+      },
+    };
+  }
+  if (value < range.min || value > range.max) {
+    const message = `${criterion} of ${value} is outside ${range.min}-${range.max}`;
+    if (range.policy === 'clamp') {
+      const clamped = Math.max(range.min, Math.min(range.max, value));
+      return {
+        value: clamped,
+        warning: {
+          criterion,
+          value,
+          action: 'clamped',
+          message: `${message}, clamped to ${clamped}`,
+        },
+      };
+    }
+    return {
+      value: undefined,
+      warning: {
+        criterion,
+        value,
+        action: 'dropped',
+        message: `${message}, dropped`,
+      },
+    };
+  }
+  return { value, warning: null };
+}
+
+/**
+ * Validates the numeric criteria against their ranges. Values that aren't
+ * finite numbers (including NaN) are always dropped, out-of-range values are
+ * clamped or dropped according to the criterion's policy.
+ * @param criteria the criteria to validate
+ * @param ranges the ranges to validate against
+ * @returns the validated criteria and any warnings
+ */
+export function validateCriteria(
+  criteria: AncoraCriteria,
+  ranges: Record<NumericCriterion, CriterionRange> = CRITERION_RANGES
+): CriteriaValidationResult {
+  const validated: AncoraCriteria = { ...criteria };
+  const warnings: CriterionWarning[] = [];
+  for (const criterion of Object.keys(ranges) as NumericCriterion[]) {
+    const { value, warning } = validateCriterion(
+      criterion,
+      validated[criterion],
+      ranges
+    );
+    if (warning === null) {
+      continue;
+    }
+    warnings.push(warning);
+    if (value === undefined) {
+      delete validated[criterion];
+    } else {
+      validated[criterion] = value as number;
+    }
+  }
+  return { criteria: validated, warnings };
+}
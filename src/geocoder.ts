@@ -0,0 +1,179 @@
+/**
+ * Offline geocoding of postal codes to the coordinates of their centroids,
+ * using a table loaded from a local file.
+ */
+
+import fs from 'node:fs';
+import { AncoraQuery } from './ancora-query';
+import {
+  AncoraCountry,
+  normalizeCountry,
+  normalizePostalCode,
+  RadiusUnit,
+} from './location';
+
+export type GeoLocation = Required<AncoraQuery>['location'];
+
+/**
+ * Mean radius of the Earth in each unit, for distance calculations.
+ */
+const EARTH_RADIUS: Record<RadiusUnit, number> = {
+  MI: 3958.8,
+  KM: 6371.0,
+};
+
+/**
+ * Calculates the great-circle distance between two locations.
+ * @param from the first location
+ * @param to the second location
+ * @param unit the units to return the distance in
+ * @returns the distance
+ */
+export function distanceBetween(
+  from: GeoLocation,
+  to: GeoLocation,
+  unit: RadiusUnit = 'MI'
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(to.lat - from.lat);
+  const deltaLong = toRadians(to.long - from.long);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(deltaLong / 2) ** 2;
+  return 2 * EARTH_RADIUS[unit] * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Geocodes postal codes to the location of their centroid.
+ */
+export class PostalCodeGeocoder {
+  _locations = new Map<string, GeoLocation>();
+
+  /**
+   * Loads a geocoder from a file. See parse() for the supported formats.
+   * @param path the path to the file
+   * @returns the geocoder
+   */
+  static load(path: string): PostalCodeGeocoder {
+    const geocoder = new PostalCodeGeocoder();
+    geocoder.parse(fs.readFileSync(path, { encoding: 'utf-8' }));
+    return geocoder;
+  }
+
+  /**
+   * The number of postal codes that can be geocoded.
+   */
+  get size(): number {
+    return this._locations.size;
+  }
+
+  /**
+   * Adds a postal code centroid. The postal code is normalized the same way
+   * postal codes being geocoded are, so that (for example) a ZIP+4 code adds
+   * its 5 digit ZIP. For the UK, an outward code on its own adds the centroid
+   * of the district.
+   * @param country the country the postal code is in
+   * @param postalCode the postal code
+   * @param location the location of the centroid
+   * @returns true if added, false if the postal code isn't valid for the
+   *   country
+   */
+  add(
+    country: AncoraCountry,
+    postalCode: string,
+    location: GeoLocation
+  ): boolean {
+    const normalized =
+      normalizePostalCode(country, postalCode) ??
+      normalizeOutwardCode(country, postalCode);
+    if (normalized === null) {
+      return false;
+    }
+    this._locations.set(locationKey(country, normalized), location);
+    return true;
+  }
+
+  /**
+   * Adds the postal code centroids in a table. Two formats are supported:
+   * CSV with the columns country, postal code, latitude, and longitude (a
+   * header row and lines starting with "#" are ignored), and the tab-separated
+   * GeoNames postal code format. Rows for unsupported countries, with invalid
+   * postal codes, or with invalid coordinates are skipped.
+   * @param table the contents of the table
+   */
+  parse(table: string): void {
+    for (const line of table.split(/\r?\n/)) {
+      if (line.trim() === '' || line.startsWith('#')) {
+        continue;
+      }
+      let fields: string[];
+      if (line.includes('\t')) {
+        // GeoNames: country, postal code, place name, 3 admin names and
+        // codes, latitude, longitude, accuracy
+        const columns = line.split('\t');
+        fields = [columns[0], columns[1], columns[9], columns[10]];
+      } else {
+        fields = line.split(',').map((field) => field.trim());
+      }
+      const country = normalizeCountry(fields[0]);
+      const lat = parseFloat(fields[2]);
+      const long = parseFloat(fields[3]);
+      if (
+        country === null ||
+        !fields[1] ||
+        isNaN(lat) ||
+        isNaN(long) ||
+        Math.abs(lat) > 90 ||
+        Math.abs(long) > 180
+      ) {
+        continue;
+      }
+      this.add(country, fields[1], { lat, long });
+    }
+  }
+
+  /**
+   * Geocodes a postal code. For UK postcodes that aren't found, the outward
+   * code (the district) is tried as well.
+   * @param country the country the postal code is in
+   * @param postalCode the postal code
+   * @returns the location of the centroid or null if the postal code is
+   *   invalid or unknown
+   */
+  geocode(country: AncoraCountry, postalCode: string): GeoLocation | null {
+    const normalized = normalizePostalCode(country, postalCode);
+    if (normalized === null) {
+      return null;
+    }
+    const location = this._locations.get(locationKey(country, normalized));
+    if (location !== undefined) {
+      return location;
+    }
+    if (country === 'UK') {
+      const outwardCode = normalized.split(' ')[0];
+      return this._locations.get(locationKey(country, outwardCode)) ?? null;
+    }
+    return null;
+  }
+}
+
+/**
+ * Normalizes a UK outward code given on its own, as used for the centroids of
+ * postcode districts.
+ * @returns the normalized outward code or null if it isn't one
+ */
+function normalizeOutwardCode(
+  country: AncoraCountry,
+  postalCode: string
+): string | null {
+  const outwardCode = postalCode.trim().toUpperCase();
+  return country === 'UK' && /^[A-Z]{1,2}\d[A-Z\d]?$/.test(outwardCode)
+    ? outwardCode
+    : null;
+}
+
+function locationKey(country: AncoraCountry, postalCode: string): string {
+  return `${country}:${postalCode}`;
+}
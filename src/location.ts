@@ -0,0 +1,139 @@
+/**
+ * Handles the location part of an Ancora query: the country, the postal code
+ * within that country, and the units of the search radius.
+ */
+
+import { AncoraCriteria, AncoraQuery } from './ancora-query';
+
+/**
+ * The countries Ancora supports.
+ */
+export type AncoraCountry = AncoraCriteria['country_code'];
+
+export type RadiusUnit = AncoraQuery['radius_unit'];
+
+export const DEFAULT_COUNTRY: AncoraCountry = 'US';
+
+/**
+ * Names and codes that may be used for a country, lower-cased and mapped to
+ * the code Ancora uses. Note that Ancora uses "UK" rather than the ISO 3166
+ * code "GB" for the United Kingdom.
+ */
+const countryAliases = new Map<string, AncoraCountry>([
+  // United States
+  ['us', 'US'],
+  ['usa', 'US'],
+  ['u.s.', 'US'],
+  ['u.s.a.', 'US'],
+  ['united states', 'US'],
+  ['united states of america', 'US'],
+  // United Kingdom
+  ['uk', 'UK'],
+  ['gb', 'UK'],
+  ['gbr', 'UK'],
+  ['u.k.', 'UK'],
+  ['united kingdom', 'UK'],
+  ['united kingdom of great britain and northern ireland', 'UK'],
+  ['great britain', 'UK'],
+  ['england', 'UK'],
+  ['scotland', 'UK'],
+  ['wales', 'UK'],
+  ['northern ireland', 'UK'],
+  // Spain
+  ['es', 'ES'],
+  ['esp', 'ES'],
+  ['spain', 'ES'],
+  ['españa', 'ES'],
+  ['espana', 'ES'],
+  // Switzerland
+  ['ch', 'CH'],
+  ['che', 'CH'],
+  ['switzerland', 'CH'],
+  ['schweiz', 'CH'],
+  ['suisse', 'CH'],
+  ['svizzera', 'CH'],
+  ['confoederatio helvetica', 'CH'],
+]);
+
+/**
+ * Normalizes a country name or ISO 3166 (alpha-2 or alpha-3) code to the
+ * country code Ancora uses.
+ * @param country the country to normalize
+ * @returns the Ancora country code or null if the country isn't supported
+ */
+export function normalizeCountry(
+  country: string | undefined
+): AncoraCountry | null {
+  if (typeof country !== 'string') {
+    return null;
+  }
+  return (
+    countryAliases.get(country.trim().replace(/\s+/g, ' ').toLowerCase()) ??
+    null
+  );
+}
+
+/**
+ * Patterns for valid postal codes in each country, which capture the parts
+ * of the postal code used to build the normalized form.
+ */
+const postalCodePatterns: Record<AncoraCountry, RegExp> = {
+  // ZIP or ZIP+4, only the 5 digit ZIP is used
+  US: /^(\d{5})(?:-?\d{4})?$/,
+  // Outward and inward codes, optionally separated by a space
+  UK: /^([A-Z]{1,2}\d[A-Z\d]?) ?(\d[A-Z]{2})$/i,
+  // 5 digits, the first two are the province (01-52)
+  ES: /^((?:0[1-9]|[1-4]\d|5[0-2])\d{3})$/,
+  // 4 digits, optionally with a "CH-" prefix
+  CH: /^(?:CH-?)?([1-9]\d{3})$/i,
+};
+
+/**
+ * Validates and normalizes a postal code for the given country.
+ * @param country the country the postal code is in
+ * @param postalCode the postal code
+ * @returns the normalized postal code or null if it isn't valid for the
+ *   country
+ */
+export function normalizePostalCode(
+  country: AncoraCountry,
+  postalCode: string | undefined
+): string | null {
+  if (typeof postalCode !== 'string') {
+    return null;
+  }
+  const match = postalCodePatterns[country].exec(postalCode.trim());
+  if (match === null) {
+    return null;
+  }
+  return match
+    .slice(1)
+    .filter((part) => part !== undefined)
+    .join(' ')
+    .toUpperCase();
+}
+
+const radiusUnitAliases = new Map<string, RadiusUnit>([
+  ['mi', 'MI'],
+  ['mile', 'MI'],
+  ['miles', 'MI'],
+  ['km', 'KM'],
+  ['kilometer', 'KM'],
+  ['kilometers', 'KM'],
+  ['kilometre', 'KM'],
+  ['kilometres', 'KM'],
+]);
+
+/**
+ * Normalizes a radius unit.
+ * @param unit the unit to normalize
+ * @returns the unit or null if it isn't supported
+ */
+export function normalizeRadiusUnit(
+  unit: string | undefined
+): RadiusUnit | null {
+  if (typeof unit !== 'string') {
+    return null;
+  }
+  return radiusUnitAliases.get(unit.trim().toLowerCase()) ?? null;
+}
@@ -0,0 +1,262 @@
+/**
+ * Derives the MSI status (whether the cancer has a high level of
+ * microsatellite instability or is mismatch repair deficient) from MSI test
+ * results and mismatch repair (MMR) protein immunohistochemistry.
+ */
+
+import { CodeableConcept, Observation } from 'fhir/r4';
+import { normalizeSystem, SNOMED_CT_SYSTEM } from './ancora-mapping-data';
+import { findQueryFlagsForCode } from './ancora-mappings';
+
+/**
+ * The MMR proteins, by their HGNC IDs.
+ */
+const MMR_PROTEIN_HGNC_IDS = new Map<string, string>([
+  ['HGNC:7127', 'MLH1'],
+  ['HGNC:7325', 'MSH2'],
+  ['HGNC:7329', 'MSH6'],
+  ['HGNC:9122', 'PMS2'],
+]);
+
+const MMR_PROTEIN_PATTERN = /\b(MLH1|MSH2|MSH6|PMS2)\b/i;
+
+/**
+ * SNOMED CT code for the immunohistochemistry procedure, as an observation
+ * method.
+ */
+const IHC_METHOD_CODE = '117617002';
+
+/**
+ * Text showing that a result is about protein expression (by
+ * immunohistochemistry) rather than about the gene.
+ */
+const IHC_PATTERN =
+  /\b(?:IHC|immunohistochemi\w*|immune ?stains?|proteins?|gene products?)\b/i;
+
+/**
+ * Text showing that a result is a gene (sequencing or methylation) test,
+ * where "negative" means no variant was found rather than a loss of
+ * expression.
+ */
+const GENE_TEST_PATTERN =
+  /\b(?:mutations?|variants?|sequencing|(?:hyper)?methylation|methylated)\b/i;
+
+/**
+ * SNOMED CT values for whether a protein is expressed.
+ */
+const expressionAnswers = new Map<string, boolean>([
+  // Present
+  ['52101004', true],
+  // Absent
+  ['2667000', false],
+]);
+
+const LOST_PATTERN =
+  /\b(?:loss|lost|absent|deficient|not expressed|negative)\b/i;
+const RETAINED_PATTERN =
+  /\b(?:intact|retained|present|expressed|normal|positive)\b/i;
+
+const MSI_HIGH_PATTERN = /\b(?:MSI-?H|(?:MSI|instability)[- ]high|dMMR)\b/i;
+const MSI_STABLE_PATTERN =
+  /\b(?:MSS|MSI-?L|stable|(?:MSI|instability)[- ]low|pMMR)\b/i;
+
+/**
+ * A single result, either an observation or one of its components.
+ */
+interface Result {
+  code?: CodeableConcept;
+  valueCodeableConcept?: CodeableConcept;
+  valueString?: string;
+}
+
+/**
+ * Gets the text and displays of a concept, but not the codes themselves.
+ */
+function codeTexts(concept: CodeableConcept | undefined): string[] {
+  const texts: string[] = [];
+  if (typeof concept?.text === 'string') {
+    texts.push(concept.text);
+  }
+  if (Array.isArray(concept?.coding)) {
+    for (const code of concept.coding) {
+      if (typeof code?.display === 'string') {
+        texts.push(code.display);
+      }
+    }
+  }
+  return texts;
+}
+
+/**
+ * Gets the text, displays, and codes of a concept.
+ */
+function conceptTexts(concept: CodeableConcept | undefined): string[] {
+  const texts = codeTexts(concept);
+  if (Array.isArray(concept?.coding)) {
+    for (const code of concept.coding) {
+      if (typeof code?.code === 'string') {
+        texts.push(code.code);
+      }
+    }
+  }
+  return texts;
+}
+
+function valueTexts(result: Result): string[] {
+  const texts = conceptTexts(result.valueCodeableConcept);
+  if (typeof result.valueString === 'string') {
+    texts.push(result.valueString);
+  }
+  return texts;
+}
+
+/**
+ * Determines if a code or method says the result is by immunohistochemistry.
+ */
+function isIHC(concept: CodeableConcept | undefined): boolean {
+  if (
+    Array.isArray(concept?.coding) &&
+    concept.coding.some(
+      (coding) =>
+        normalizeSystem(coding?.system) === SNOMED_CT_SYSTEM &&
+        coding.code === IHC_METHOD_CODE
+    )
+  ) {
+    return true;
+  }
+  return codeTexts(concept).some((text) => IHC_PATTERN.test(text));
+}
+
+function isGeneTest(code: CodeableConcept | undefined): boolean {
+  return codeTexts(code).some((text) => GENE_TEST_PATTERN.test(text));
+}
+
+/**
+ * Determines which MMR protein a result is about, from an HGNC code or the
+ * name of the protein in the text of the code.
+ */
+function findMMRProtein(code: CodeableConcept | undefined): string | null {
+  if (Array.isArray(code?.coding)) {
+    for (const coding of code.coding) {
+      const protein = MMR_PROTEIN_HGNC_IDS.get(coding?.code);
+      if (protein !== undefined) {
+        return protein;
+      }
+    }
+  }
+  for (const text of codeTexts(code)) {
+    const match = MMR_PROTEIN_PATTERN.exec(text);
+    if (match) {
+      return match[1].toUpperCase();
+    }
+  }
+  return null;
+}
+
+/**
+ * Determines whether a result says the protein is expressed.
+ * @returns true if expressed (retained), false if lost, or null if unknown
+ */
+function findExpression(result: Result): boolean | null {
+  const coding = result.valueCodeableConcept?.coding;
+  if (Array.isArray(coding)) {
+    for (const code of coding) {
+      if (normalizeSystem(code?.system) === SNOMED_CT_SYSTEM) {
+        const answer = expressionAnswers.get(code.code);
+        if (answer !== undefined) {
+          return answer;
+        }
+      }
+    }
+  }
+  for (const text of valueTexts(result)) {
+    // Check for loss first, as "not expressed" contains "expressed"
+    if (LOST_PATTERN.test(text)) {
+      return false;
+    }
+    if (RETAINED_PATTERN.test(text)) {
+      return true;
+    }
+  }
+  return null;
+}
+
+function isMSIResult(code: CodeableConcept | undefined): boolean {
+  if (
+    Array.isArray(code?.coding) &&
+    code.coding.some(
+      (coding) =>
+        typeof coding?.system === 'string' &&
+        typeof coding.code === 'string' &&
+        findQueryFlagsForCode(coding.system, coding.code)?.includes('msi')
+    )
+  ) {
+    return true;
+  }
+  return conceptTexts(code).some((text) =>
+    /\b(?:MSI|microsatellite|mismatch repair|MMR)\b/i.test(text)
+  );
+}
+
+/**
+ * Determines the MSI status from a result's value (MSI-H or MSS/MSI-L).
+ */
+function findMSIValue(result: Result): boolean | null {
+  for (const text of valueTexts(result)) {
+    if (MSI_HIGH_PATTERN.test(text)) {
+      return true;
+    }
+    if (MSI_STABLE_PATTERN.test(text)) {
+      return false;
+    }
+  }
+  return null;
+}
+
+/**
+ * Determines the MSI status from an observation. The observation may be an
+ * MSI test (with an MSI-H or MSS value), a single MMR protein result, or a
+ * panel with the MSI status or MMR protein results as components. The loss of
+ * any MMR protein means the cancer is mismatch repair deficient, which is
+ * treated as MSI-H. A panel reporting all four MMR proteins as retained is
+ * treated as MSS. Results are only read as MMR protein results when they are
+ * by immunohistochemistry, either according to their own code or to the code
+ * or method of the observation, so that gene and methylation tests (where
+ * "negative" means no variant was found) are never read as a loss.
+ * @param observation the observation to inspect
+ * @returns true for MSI-H/dMMR, false for MSS/pMMR, or null if unknown
+ */
+export function findMSIStatus(observation: Observation): boolean | null {
+  const results: Result[] = [observation];
+  if (Array.isArray(observation.component)) {
+    results.push(
+      ...observation.component.filter(
+        (component) => typeof component === 'object' && component !== null
+      )
+    );
+  }
+  const panelIsIHC = isIHC(observation.code) || isIHC(observation.method);
+  const retained = new Set<string>();
+  let msiValue: boolean | null = null;
+  for (const result of results) {
+    const protein =
+      (panelIsIHC || isIHC(result.code)) && !isGeneTest(result.code)
+        ? findMMRProtein(result.code)
+        : null;
+    if (protein !== null) {
+      const expressed = findExpression(result);
+      if (expressed === false) {
+        return true;
+      }
+      if (expressed === true) {
+        retained.add(protein);
+      }
+    } else if (isMSIResult(result.code)) {
+      msiValue = findMSIValue(result) ?? msiValue;
+    }
+  }
+  if (msiValue !== null) {
+    return msiValue;
+  }
+  return retained.size === MMR_PROTEIN_HGNC_IDS.size ? false : null;
+}
@@ -0,0 +1,172 @@
+/**
+ * Determines whether an observation (such as a biomarker test) is a positive
+ * or negative result. Labs report this in several ways, so the result is
+ * found by trying a list of resolvers in turn.
+ */
+
+import { Observation } from 'fhir/r4';
+import {
+  LOINC_SYSTEM,
+  normalizeSystem,
+  SNOMED_CT_SYSTEM,
+} from './ancora-mapping-data';
+
+export const OBSERVATION_INTERPRETATION_SYSTEM =
+  'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+
+/**
+ * A function that determines whether an observation is positive.
+ * @param observation the observation to check
+ * @returns true if positive, false if negative, or null if it can't tell
+ */
+export type PositivityResolver = (observation: Observation) => boolean | null;
+
+/**
+ * Coded values for positive and negative results, by system.
+ */
+const positivityAnswers = new Map<string, Map<string, boolean>>([
+  [
+    SNOMED_CT_SYSTEM,
+    new Map<string, boolean>([
+      // Positive
+      ['10828004', true],
+      // Negative
+      ['260385009', false],
+    ]),
+  ],
+  [
+    LOINC_SYSTEM,
+    new Map<string, boolean>([
+      // Positive
+      ['LA6576-8', true],
+      // Negative
+      ['LA6577-6', false],
+      // Detected
+      ['LA11882-0', true],
+      // Not detected
+      ['LA11883-8', false],
+    ]),
+  ],
+]);
+
+/**
+ * Interpretation codes for positive and negative results.
+ */
+const interpretationAnswers = new Map<string, boolean>([
+  // Positive
+  ['POS', true],
+  // Negative
+  ['NEG', false],
+  // Detected
+  ['DET', true],
+  // Not detected
+  ['ND', false],
+]);
+
+/**
+ * Textual values for positive and negative results, lower-cased.
+ */
+const textAnswers = new Map<string, boolean>([
+  ['positive', true],
+  ['pos', true],
+  ['detected', true],
+  ['present', true],
+  ['negative', false],
+  ['neg', false],
+  ['not detected', false],
+  ['undetected', false],
+  ['absent', false],
+]);
+
+/**
+ * Resolves positivity from a coded value (SNOMED CT or LOINC answers).
+ */
+export const resolveValueCode: PositivityResolver = (observation) => {
+  const coding = observation.valueCodeableConcept?.coding;
+  if (Array.isArray(coding)) {
+    for (const code of coding) {
+      const answer = positivityAnswers
+        .get(normalizeSystem(code?.system))
+        ?.get(code.code);
+      if (answer !== undefined) {
+        return answer;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Resolves positivity from a textual value such as "Positive" or
+ * "Not detected".
+ */
+export const resolveValueString: PositivityResolver = (observation) => {
+  if (typeof observation.valueString !== 'string') {
+    return null;
+  }
+  const text = observation.valueString
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+  return textAnswers.get(text) ?? null;
+};
+
+/**
+ * Resolves positivity from the interpretation of the observation (POS, NEG,
+ * DET or ND).
+ */
+export const resolveInterpretation: PositivityResolver = (observation) => {
+  if (!Array.isArray(observation.interpretation)) {
+    return null;
+  }
+  for (const interpretation of observation.interpretation) {
+    const coding = interpretation?.coding;
+    if (!Array.isArray(coding)) {
+      continue;
+    }
+    for (const code of coding) {
+      if (code?.system === OBSERVATION_INTERPRETATION_SYSTEM) {
+        const answer = interpretationAnswers.get(code.code);
+        if (answer !== undefined) {
+          return answer;
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * The resolvers used by default. The value of the observation takes
+ * precedence over its interpretation.
+ */
+export const DEFAULT_POSITIVITY_RESOLVERS: readonly PositivityResolver[] = [
+  resolveValueCode,
+  resolveValueString,
+  resolveInterpretation,
+];
+
+/**
+ * Creates a resolver that tries each of the given resolvers in turn, using
+ * the first result found.
+ * @param resolvers the resolvers to try
+ * @returns the combined resolver
+ */
+export function createPositivityResolver(
+  resolvers: readonly PositivityResolver[] = DEFAULT_POSITIVITY_RESOLVERS
+): PositivityResolver {
+  return (observation) => {
+    for (const resolver of resolvers) {
+      const positive = resolver(observation);
+      if (positive !== null) {
+        return positive;
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Resolves positivity using the default resolvers.
+ */
+export const resolvePositivity: PositivityResolver = createPositivityResolver();
@@ -34,27 +34,295 @@ import {
   SearchBundleEntry,
 } from 'clinical-trial-matching-service';
 import {
+  AllergyIntolerance,
   Bundle,
+  Coding,
   Condition,
+  DiagnosticReport,
+  Extension,
+  FhirResource,
+  MedicationAdministration,
+  MedicationRequest,
   MedicationStatement,
   Observation,
   Patient,
   Procedure,
+  ResearchStudy as FhirResearchStudy,
 } from 'fhir/r4';
-import convertToSearchSetEntry from './researchstudy-mapping';
-import { LOINC_SYSTEM, SNOMED_CT_SYSTEM } from './ancora-mapping-data';
+import convertToSearchSetEntry, {
+  convertRecruitingStatus,
+} from './researchstudy-mapping';
+import {
+  AncoraQueryDisease,
+  normalizeSystem,
+  RX_NORM_SYSTEM,
+} from './ancora-mapping-data';
 import { AncoraCriteria, AncoraQuery } from './ancora-query';
+import { stageFromTNM, TNMCategory, TNMValue } from './tnm';
+import {
+  AncoraCountry,
+  DEFAULT_COUNTRY,
+  normalizeCountry,
+  normalizePostalCode,
+  normalizeRadiusUnit,
+  RadiusUnit,
+} from './location';
+import { PostalCodeGeocoder } from './geocoder';
+import { BundleIndex } from './bundle-index';
+import {
+  CriterionWarning,
+  validateCriteria,
+  validateCriterion,
+} from './criteria-validation';
+import { PositivityResolver, resolvePositivity } from './positivity';
+import { findMSIStatus } from './mismatch-repair';
+import {
+  SCORING_GUIDELINES,
+  ScoringGuideline,
+  ScoringGuidelineVersion,
+  scoreReceptorObservation,
+} from './receptor-scoring';
 import {
+  DEFAULT_STATUS_POLICY,
+  isActiveCondition,
+  isInactiveOrResolved,
+  isOrderIntent,
+  isRefutedOrEnteredInError,
+  isUsableResultStatus,
+  isUsableTreatmentStatus,
+  StatusPolicy,
+} from './status-policy';
+import {
+  DiseaseStatusStage,
+  ecogToKarnofsky,
+  findBirthSex,
+  findComorbidityFlagsForCode,
   findQueryFlagsForCode,
   findDiseaseTypeForCode,
+  findDiseaseStatusControlled,
+  findDiseaseStatusStage,
+  findGeneticVariant,
+  findMenopausalStatus,
+  findObservedMenopausalStatus,
+  findPerformanceStatus,
+  findPregnancyStatus,
+  findPSA,
+  findSexAssignedAtBirth,
+  findTumorSize,
+  findTNMCategory,
   findTumorStage,
+  isBrainMetastasis,
+  isConditionControlled,
+  karnofskyToEcog,
+  MenopausalStatus,
+  NatalSex,
 } from './ancora-mappings';
 
 export interface AncoraAiConfiguration extends ServiceConfiguration {
   endpoint?: string;
   api_key?: string;
+  /**
+   * When set, one query is sent per type of disease found within the patient
+   * data and the results merged, rather than sending a single query for the
+   * last type of disease found. Enabled by the string "true" (as the
+   * configuration is generally loaded from the environment).
+   */
+  multi_disease?: string;
+  /**
+   * Set to "false" to disable the age-based fallback for menopausal status.
+   */
+  menopausal_age_fallback?: string;
+  /**
+   * Age below which female patients are assumed premenopausal by the fallback.
+   */
+  premenopausal_below_age?: string | number;
+  /**
+   * Age from which female patients are assumed postmenopausal by the fallback.
+   */
+  postmenopausal_from_age?: string | number;
+  /**
+   * Path to a postal code centroid table used to geocode postal codes (see
+   * PostalCodeGeocoder.parse() for the format).
+   */
+  postal_code_file?: string;
+  /**
+   * Set to "true" to add the sources of the criteria sent to Ancora to each
+   * search result (see QUERY_PROVENANCE_EXTENSION_URL).
+   */
+  provenance_extension?: string;
+  /**
+   * Set to "false" to ignore preliminary observations and reports.
+   */
+  preliminary_results?: string;
+  /**
+   * Set to "true" to ignore inactive and resolved conditions when detecting
+   * the type of disease.
+   */
+  exclude_inactive_diseases?: string;
+  /**
+   * Version of the ASCO/CAP guidelines used to score HER2, ER and PR results
+   * ("2013" or "2018", the default).
+   */
+  asco_cap_guideline?: string;
+  /**
+   * Set to "true" to use the patient's gender for their natal sex when no
+   * sex assigned at birth is known.
+   */
+  natal_sex_from_gender?: string;
+}
+
+/**
+ * Ages used by the menopausal status fallback.
+ */
+export interface MenopausalAgeFallback {
+  /**
+   * Female patients younger than this are assumed premenopausal
+   */
+  premenopausalBelow: number;
+  /**
+   * Female patients at least this old are assumed postmenopausal
+   */
+  postmenopausalFrom: number;
+}
+
+export const DEFAULT_MENOPAUSAL_AGE_FALLBACK: MenopausalAgeFallback = {
+  premenopausalBelow: 45,
+  postmenopausalFrom: 55,
+};
+
+/**
+ * The default search radius in each unit (roughly the same distance).
+ */
+const DEFAULT_RADIUS: Record<RadiusUnit, number> = {
+  MI: 100,
+  KM: 160,
+};
+
+/**
+ * Options that control how the query is built from the patient data.
+ */
+export interface AncoraAPIQueryOptions {
+  /**
+   * Age-based fallback for menopausal status, used for female patients when
+   * no explicit menopausal status exists. Patients between the two ages are
+   * left unset. Defaults to DEFAULT_MENOPAUSAL_AGE_FALLBACK, set to false to
+   * disable.
+   */
+  menopausalAgeFallback?: MenopausalAgeFallback | false;
+  /**
+   * Geocoder used to send the coordinates of the postal code along with it.
+   */
+  geocoder?: PostalCodeGeocoder;
+  /**
+   * Date to build the query as of (for the patient's age and other
+   * time-based logic), so that the same bundle always produces the same
+   * query. Takes precedence over any referenceDate search parameter, defaults
+   * to the current date.
+   */
+  referenceDate?: Date;
+  /**
+   * Whether preliminary observations and reports are used, defaults to true.
+   */
+  includePreliminaryResults?: boolean;
+  /**
+   * Whether inactive and resolved conditions are excluded when detecting the
+   * type of disease, defaults to false.
+   */
+  excludeInactiveDiseases?: boolean;
+  /**
+   * Determines whether observations are positive or negative results,
+   * defaults to resolvePositivity (see positivity.ts).
+   */
+  positivityResolver?: PositivityResolver;
+  /**
+   * The ASCO/CAP guideline used to score HER2, ER and PR results, defaults to
+   * DEFAULT_SCORING_GUIDELINE.
+   */
+  scoringGuideline?: ScoringGuideline;
+  /**
+   * Whether the patient's gender is used for their natal sex when there is no
+   * birth sex extension or sex assigned at birth observation, defaults to
+   * false.
+   */
+  natalSexFromGender?: boolean;
+}
+
+/**
+ * Creates query options from the service configuration.
+ * @param configuration the service configuration
+ * @returns the query options
+ */
+export function queryOptionsFromConfiguration(
+  configuration: AncoraAiConfiguration
+): AncoraAPIQueryOptions {
+  const options: AncoraAPIQueryOptions = {};
+  if (configuration.menopausal_age_fallback === 'false') {
+    options.menopausalAgeFallback = false;
+  } else if (
+    configuration.premenopausal_below_age !== undefined ||
+    configuration.postmenopausal_from_age !== undefined
+  ) {
+    const premenopausalBelow = Number(configuration.premenopausal_below_age);
+    const postmenopausalFrom = Number(configuration.postmenopausal_from_age);
+    options.menopausalAgeFallback = {
+      premenopausalBelow: isNaN(premenopausalBelow)
+        ? DEFAULT_MENOPAUSAL_AGE_FALLBACK.premenopausalBelow
+        : premenopausalBelow,
+      postmenopausalFrom: isNaN(postmenopausalFrom)
+        ? DEFAULT_MENOPAUSAL_AGE_FALLBACK.postmenopausalFrom
+        : postmenopausalFrom,
+    };
+  }
+  if (configuration.preliminary_results === 'false') {
+    options.includePreliminaryResults = false;
+  }
+  if (configuration.exclude_inactive_diseases === 'true') {
+    options.excludeInactiveDiseases = true;
+  }
+  if (configuration.natal_sex_from_gender === 'true') {
+    options.natalSexFromGender = true;
+  }
+  if (typeof configuration.asco_cap_guideline === 'string') {
+    if (configuration.asco_cap_guideline in SCORING_GUIDELINES) {
+      options.scoringGuideline =
+        SCORING_GUIDELINES[
+          configuration.asco_cap_guideline as ScoringGuidelineVersion
+        ];
+    } else {
+      throw new Error(
+        `Unsupported ASCO/CAP guideline version: ${configuration.asco_cap_guideline}`
+      );
+    }
+  }
+  if (typeof configuration.postal_code_file === 'string') {
+    options.geocoder = PostalCodeGeocoder.load(configuration.postal_code_file);
+    debuglog(
+      'Loaded %d postal codes from %s',
+      options.geocoder.size,
+      configuration.postal_code_file
+    );
+  }
+  return options;
 }
 
+/**
+ * URL of the extension added to a search result's search element to indicate
+ * which disease query produced it when running in multi-disease mode.
+ */
+export const DISEASE_QUERY_EXTENSION_URL =
+  'http://ancora.ai/fhir/StructureDefinition/type-of-disease-query';
+
+/**
+ * URL of the extension added to a search result's search element for each
+ * resource that set a criterion sent in the query that produced it. This is a
+ * complex extension with the sub-extensions "criterion" (the name of the
+ * criterion, or type_of_disease), "value" (the value as JSON), "source" (a
+ * reference to the resource, if it has one) and "code" (the code that set
+ * it, if any).
+ */
+export const QUERY_PROVENANCE_EXTENSION_URL =
+  'http://ancora.ai/fhir/StructureDefinition/query-criterion-source';
+
 // Debug log - logs lots of debug information
 let debuglog: util.DebugLoggerFunction = util.debuglog('ancora', (logger) => {
   debuglog = logger;
@@ -88,13 +356,22 @@ export function createAncoraAiLookup(
   }
   const endpoint = configuration.endpoint;
   const apiKey = configuration.api_key;
-  return function getMatchingClinicalTrials(
+  const multiDisease = configuration.multi_disease === 'true';
+  const provenanceExtension = configuration.provenance_extension === 'true';
+  const queryOptions = queryOptionsFromConfiguration(configuration);
+  return async function getMatchingClinicalTrials(
     patientBundle: Bundle
   ): Promise<SearchSet> {
     // Create the query based on the patient bundle:
-    const query = new AncoraAPIQuery(patientBundle);
+    const query = new AncoraAPIQuery(patientBundle, undefined, queryOptions);
     // And send the query to the server
-    return sendQuery(endpoint, query, apiKey, ctgService);
+    const searchSet = multiDisease
+      ? await sendMultiDiseaseQuery(endpoint, query, apiKey, ctgService)
+      : await sendQuery(endpoint, query, apiKey, ctgService);
+    if (provenanceExtension) {
+      addProvenanceExtensions(searchSet, query);
+    }
+    return searchSet;
   };
 }
 
@@ -255,6 +532,234 @@ export class APIError extends Error {
   }
 }
 
+/**
+ * Parse a FHIR dateTime into milliseconds since the epoch.
+ * @param dateTime the dateTime string
+ * @returns the parsed time or null if missing or unparseable
+ */
+function parseDateTime(dateTime: string | undefined): number | null {
+  if (typeof dateTime !== 'string') {
+    return null;
+  }
+  const time = Date.parse(dateTime);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Parse a FHIR period, using the end if there is one as that's the most
+ * recent time the period covers.
+ */
+function parsePeriod(
+  period: { start?: string; end?: string } | undefined
+): number | null {
+  return parseDateTime(period?.end) ?? parseDateTime(period?.start);
+}
+
+/**
+ * Determine when the clinical fact within a resource was true, for resolving
+ * conflicts between resources. This is based on effective[x] (or the
+ * equivalent for the resource type), falling back to when the resource was
+ * issued or recorded.
+ * @param resource the resource to examine
+ * @returns the date in ms since the epoch or null if none could be found
+ */
+export function findResourceDate(resource: FhirResource): number | null {
+  switch (resource.resourceType) {
+    case 'Observation':
+      return (
+        parseDateTime(resource.effectiveDateTime) ??
+        parseDateTime(resource.effectiveInstant) ??
+        parsePeriod(resource.effectivePeriod) ??
+        parseDateTime(resource.issued)
+      );
+    case 'Condition':
+      return (
+        parseDateTime(resource.recordedDate) ??
+        parseDateTime(resource.onsetDateTime) ??
+        parsePeriod(resource.onsetPeriod)
+      );
+    case 'MedicationStatement':
+      return (
+        parseDateTime(resource.effectiveDateTime) ??
+        parsePeriod(resource.effectivePeriod) ??
+        parseDateTime(resource.dateAsserted)
+      );
+    case 'MedicationRequest':
+      return parseDateTime(resource.authoredOn);
+    case 'MedicationAdministration':
+      return (
+        parseDateTime(resource.effectiveDateTime) ??
+        parsePeriod(resource.effectivePeriod)
+      );
+    case 'AllergyIntolerance':
+      return (
+        parseDateTime(resource.recordedDate) ??
+        parseDateTime(resource.onsetDateTime) ??
+        parsePeriod(resource.onsetPeriod)
+      );
+    case 'Procedure':
+      return (
+        parseDateTime(resource.performedDateTime) ??
+        parsePeriod(resource.performedPeriod)
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Formats a date from findResourceDate for logging.
+ */
+function formatDate(date: number | null): string {
+  return toISODate(date) ?? 'undated';
+}
+
+/**
+ * Converts a date (in ms since the epoch) to an ISO date/time string.
+ */
+function toISODate(date: number | null): string | null {
+  return date === null ? null : new Date(date).toISOString();
+}
+
+/**
+ * Determines if a criterion value is "greater" than another, used to break
+ * ties between conflicting values. Booleans and numbers compare as usual
+ * (true is greater than false), anything else compares as strings.
+ */
+function isGreaterValue(value: unknown, other: unknown): boolean {
+  if (typeof value === 'boolean' || typeof value === 'number') {
+    return value > (other as typeof value);
+  }
+  return String(value) > String(other);
+}
+
+/**
+ * Types of disease for which the hematologic treatment stage (untreated,
+ * in_treatment, remission, relapsed) is inferred from treatments.
+ */
+const HEMATOLOGIC_DISEASES = new Set<AncoraQueryDisease>([
+  'acute_myeloid_leukemia',
+  'multiple_myeloma',
+]);
+
+/**
+ * Flags that describe the current state of the patient, which are only set
+ * from conditions with an active clinical status. A pregnancy (or delivery)
+ * recorded years ago doesn't make the patient pregnant now, and conditions
+ * without a clinical status can't be told apart from such old ones.
+ */
+const CURRENT_STATE_FLAGS = new Set<string>(['pregnant_nursing']);
+
+/**
+ * Criteria that only apply to some types of disease, and so are left out of
+ * the queries for other types of disease in multi-disease mode.
+ */
+const DISEASE_SPECIFIC_CRITERIA = new Map<
+  keyof AncoraCriteria,
+  Set<AncoraQueryDisease>
+>([
+  ['in_treatment', HEMATOLOGIC_DISEASES],
+  ['untreated', HEMATOLOGIC_DISEASES],
+  ['remission', HEMATOLOGIC_DISEASES],
+  ['relapsed', HEMATOLOGIC_DISEASES],
+  ['cns_leukemia', new Set<AncoraQueryDisease>(['acute_myeloid_leukemia'])],
+]);
+
+/**
+ * Prefix for mCODE profiles for cancer-related treatments (medications,
+ * surgical procedures and radiation procedures).
+ */
+const MCODE_CANCER_RELATED_PROFILE_PREFIX =
+  'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-cancer-related-';
+
+/**
+ * Determines if a treatment resource is cancer-related: either it claims an
+ * mCODE cancer-related profile, or one of its codes is mapped to an Ancora
+ * criterion (all of which are cancer treatments).
+ * @param resource the resource to check
+ * @param coding the codes of the treatment
+ */
+function isCancerRelatedTreatment(
+  resource: FhirResource,
+  coding: Coding[] | undefined
+): boolean {
+  const profiles = resource.meta?.profile;
+  if (
+    Array.isArray(profiles) &&
+    profiles.some(
+      (profile) =>
+        typeof profile === 'string' &&
+        profile.startsWith(MCODE_CANCER_RELATED_PROFILE_PREFIX)
+    )
+  ) {
+    return true;
+  }
+  return (
+    Array.isArray(coding) &&
+    coding.some(
+      (code) =>
+        typeof code?.system === 'string' &&
+        typeof code.code === 'string' &&
+        findQueryFlagsForCode(code.system, code.code) !== null
+    )
+  );
+}
+
+/**
+ * The values that may have provenance recorded: each criterion and the type
+ * of disease.
+ */
+export type ProvenanceKey = keyof AncoraCriteria | 'type_of_disease';
+
+/**
+ * A record of a value being set for a criterion (or the type of disease) and
+ * where it came from.
+ */
+export interface ProvenanceRecord {
+  /**
+   * The value that was set. This may have been overwritten by a more recent
+   * value.
+   */
+  value: unknown;
+  /**
+   * Reference to the resource the value came from, if it has one. Contained
+   * resources and values derived from other criteria have no reference.
+   */
+  reference?: string;
+  /**
+   * Type of the resource the value came from, if any.
+   */
+  resourceType?: FhirResource['resourceType'];
+  /**
+   * The code that set the value, if any.
+   */
+  code?: Coding;
+  /**
+   * When the clinical fact behind the value was true, as an ISO date/time, or
+   * null if unknown.
+   */
+  date: string | null;
+  /**
+   * Whether the value is the one that ended up in the query, rather than one
+   * that was overwritten (or ignored) in favor of another.
+   */
+  current: boolean;
+}
+
+/**
+ * Gets the primary code of a resource, used as the code that set a value when
+ * no more specific code is known.
+ */
+function primaryCoding(source: FhirResource | undefined): Coding | undefined {
+  if (source === undefined || !('code' in source)) {
+    return undefined;
+  }
+  const code = source.code as { coding?: Coding[] } | string | undefined;
+  return typeof code === 'object' && Array.isArray(code.coding)
+    ? code.coding[0]
+    : undefined;
+}
+
 /**
  * This class represents a query, built based on values from within the patient
  * bundle.
@@ -272,57 +777,207 @@ export class AncoraAPIQuery {
    * Type of disease. Must be set when
    */
   typeOfDisease: AncoraQuery['type_of_disease'] | null = null;
+  /**
+   * Every type of disease found within the patient data, in the order they
+   * were found. (Does not include the default type of disease.)
+   */
+  diseaseTypes = new Set<AncoraQueryDisease>();
   /**
    * ZIP code.
    */
   _zipCode: string | null = null;
   /**
-   * Distance in miles a user has indicated they're willing to travel
+   * Country from the search parameters.
+   */
+  _country: AncoraCountry | null = null;
+  /**
+   * Country from the patient's address, used if there is no country search
+   * parameter.
+   */
+  _addressCountry: AncoraCountry | null = null;
+  /**
+   * Postal code from the patient's address, used if there is no zipCode
+   * search parameter.
+   */
+  _addressPostalCode: string | null = null;
+  /**
+   * Distance a user has indicated they're willing to travel
    */
   _travelRadius: number | null = null;
   /**
-   * A FHIR ResearchStudy phase
+   * Units of the travel radius, defaults to miles
+   */
+  _radiusUnit: RadiusUnit = 'MI';
+  /**
+   * FHIR ResearchStudy phases (comma separated)
    */
   _phase: string | null = null;
   /**
-   * A FHIR ResearchStudy status
+   * FHIR ResearchStudy statuses (comma separated)
    */
   _recruitmentStatus: string | null = null;
+  /**
+   * When the clinical fact behind each criterion was true (in ms since the
+   * epoch, null if unknown), used to keep only the most recent value.
+   */
+  _criterionDates = new Map<keyof AncoraCriteria, number | null>();
+  /**
+   * Every value set for each criterion and the type of disease, in the order
+   * they were set, including values that were overwritten (see
+   * getProvenance()).
+   */
+  _provenance = new Map<ProvenanceKey, Omit<ProvenanceRecord, 'current'>[]>();
+  /**
+   * Criteria that were not found directly in the patient data but were
+   * derived from other criteria (such as a Karnofsky score converted from an
+   * ECOG score).
+   */
+  derivedCriteria = new Set<keyof AncoraCriteria>();
+  /**
+   * Problems found with the criteria the last time toQuery() was called,
+   * such as out-of-range values that were clamped or dropped. This includes
+   * values dropped or clamped as they were found in the patient data.
+   */
+  validationWarnings: CriterionWarning[] = [];
+  /**
+   * Problems found with values as they were found in the patient data.
+   */
+  _criterionWarnings: CriterionWarning[] = [];
+  /**
+   * Cancer-related treatments that are currently ongoing.
+   */
+  _activeTreatments: FhirResource[] = [];
+  /**
+   * Cancer-related treatments that have been completed or stopped.
+   */
+  _completedTreatments: FhirResource[] = [];
+  /**
+   * Conditions indicating cancer in the brain or CNS.
+   */
+  _brainMetastases: Condition[] = [];
+  /**
+   * Disease status observations indicating whether the disease is controlled
+   * that have a focus, which may be a brain metastasis.
+   */
+  _focusedDiseaseStatuses: Observation[] = [];
+  /**
+   * Disease status observations indicating remission or relapse, which only
+   * apply to hematologic cancers and so are used once the disease is known.
+   */
+  _diseaseStatusStages: {
+    stage: DiseaseStatusStage;
+    observation: Observation;
+  }[] = [];
+  /**
+   * The most recent TNM category observation found for each category, used
+   * to derive the tumor stage when there is no stage group observation.
+   */
+  _tnmCategories = new Map<
+    TNMCategory,
+    { value: TNMValue; observation: Observation }
+  >();
+  /**
+   * Whether the tumor stage is derived from the TNM categories, in which case
+   * it depends on the type of disease and is derived again for queries for
+   * other types of disease.
+   */
+  _tumorStageFromTNM = false;
+  /**
+   * Index of the patient bundle, used to resolve references.
+   */
+  _index: BundleIndex;
+  /**
+   * The patient's birth date (as a UTC date).
+   */
+  _birthDate: Date | null = null;
+  /**
+   * The patient's gender (if male or female), which is only used for the
+   * natal sex if configured to.
+   */
+  _gender: { gender: NatalSex; patient: Patient } | null = null;
+  /**
+   * The patient resource the birth date came from.
+   */
+  _patient: Patient | null = null;
+  /**
+   * Reference date from the search parameters.
+   */
+  _referenceDateParameter: Date | null = null;
+  /**
+   * Options used to build the query.
+   */
+  _options: AncoraAPIQueryOptions;
 
   /**
    * Create a new query object.
    * @param patientBundle the patient bundle to use for field values
    * @param defaultTypeOfDisease type of disease to default to if no disease can
    *   be found within the patient data
+   * @param options options controlling how the query is built
    */
   constructor(
     patientBundle: Bundle,
-    defaultTypeOfDisease?: AncoraQuery['type_of_disease']
+    defaultTypeOfDisease?: AncoraQuery['type_of_disease'],
+    options: AncoraAPIQueryOptions = {}
   ) {
+    this._options = options;
     // Build the internal criterions object.
     this._criterions = {};
     if (defaultTypeOfDisease) {
       this.typeOfDisease = defaultTypeOfDisease;
     }
-    for (const entry of patientBundle.entry) {
-      if (!('resource' in entry)) {
-        // Skip bad entries
-        continue;
-      }
-      const resource = entry.resource;
+    this._index = new BundleIndex(patientBundle);
+    for (const resource of this._index.resources) {
       // Pull out search parameters
       if (resource.resourceType === 'Parameters') {
         for (const parameter of resource.parameter) {
           if (parameter.name === 'zipCode') {
             this._zipCode = parameter.valueString;
+          } else if (parameter.name === 'country') {
+            this._country = normalizeCountry(parameter.valueString);
+            if (this._country === null) {
+              debuglog(
+                'Ignoring unsupported country %j',
+                parameter.valueString
+              );
+            }
           } else if (parameter.name === 'travelRadius') {
             // FIXME: No mapping within Ancora at present
-            this._travelRadius = parseFloat(parameter.valueString);
+            const travelRadius = parseFloat(parameter.valueString);
+            if (isFinite(travelRadius) && travelRadius > 0) {
+              this._travelRadius = travelRadius;
+            } else {
+              debuglog(
+                'Ignoring invalid travel radius %j',
+                parameter.valueString
+              );
+            }
+          } else if (parameter.name === 'radiusUnit') {
+            const radiusUnit = normalizeRadiusUnit(parameter.valueString);
+            if (radiusUnit === null) {
+              debuglog(
+                'Ignoring unsupported radius unit %j',
+                parameter.valueString
+              );
+            } else {
+              this._radiusUnit = radiusUnit;
+            }
+          } else if (parameter.name === 'referenceDate') {
+            const value =
+              parameter.valueDate ??
+              parameter.valueDateTime ??
+              parameter.valueString;
+            const referenceDate = parseDateTime(value);
+            if (referenceDate === null) {
+              debuglog('Ignoring invalid reference date %j', value);
+            } else {
+              this._referenceDateParameter = new Date(referenceDate);
+            }
           } else if (parameter.name === 'phase') {
-            // FIXME: No mapping within Ancora at present
+            // Ancora can't filter on this, results are filtered instead
             this._phase = parameter.valueString;
           } else if (parameter.name === 'recruitmentStatus') {
-            // FIXME: No mapping within Ancora at present
+            // Ancora can't filter on this, results are filtered instead
             this._recruitmentStatus = parameter.valueString;
           }
         }
@@ -332,12 +987,27 @@ export class AncoraAPIQuery {
         this.addObservation(resource);
       } else if (resource.resourceType === 'MedicationStatement') {
         this.addMedicationStatement(resource);
+      } else if (resource.resourceType === 'MedicationRequest') {
+        this.addMedicationRequest(resource);
+      } else if (resource.resourceType === 'MedicationAdministration') {
+        this.addMedicationAdministration(resource);
       } else if (resource.resourceType === 'Procedure') {
         this.addProcedure(resource);
       } else if (resource.resourceType === 'Patient') {
         this.addPatient(resource);
+      } else if (resource.resourceType === 'AllergyIntolerance') {
+        this.addAllergyIntolerance(resource);
+      } else if (resource.resourceType === 'DiagnosticReport') {
+        this.addDiagnosticReport(resource);
       }
     }
+    this._calculateAge();
+    this._inferNatalSexFromGender();
+    this._inferTreatmentStage();
+    this._inferBrainMetastasesControl();
+    this._inferMenopausalStatus();
+    this._inferTumorStageFromTNM();
+    this._inferPerformanceStatus();
   }
 
   /**
@@ -345,8 +1015,15 @@ export class AncoraAPIQuery {
    * @param code the code to add
    * @param value the value to set the flag to, defaults to true (can also be
    *   false to indicate a negative result)
+   * @param source the resource the code came from, if any
+   * @param ignoredFlags flags that should not be set from this code
    */
-  _addCode(code: { system?: string; code?: string }, value = true): void {
+  _addCode(
+    code: { system?: string; code?: string },
+    value = true,
+    source?: FhirResource,
+    ignoredFlags?: Set<string>
+  ): void {
     // Ignore invalid stuff sent to this
     if (
       typeof code !== 'object' ||
@@ -356,129 +1033,846 @@ export class AncoraAPIQuery {
     ) {
       return;
     }
-    const flags = findQueryFlagsForCode(code.system, code.code);
-    if (flags) {
-      for (const flag of flags) {
-        this._criterions[flag] = value;
+    const flags = [
+      ...(findQueryFlagsForCode(code.system, code.code) ?? []),
+      ...(findComorbidityFlagsForCode(code.system, code.code) ?? []),
+    ];
+    for (const flag of flags) {
+      if (!ignoredFlags?.has(flag)) {
+        this._setCriterion(flag, value, source, code);
       }
     }
   }
 
   /**
-   * Adds a condition. Looks at the code and set flags based on known codes.
-   * @param condition the condition to add
+   * Sets a criterion, resolving conflicts with any existing value so that the
+   * most recent clinical fact wins regardless of the order of the bundle.
+   * Values with a known date win over values without one. When the dates are
+   * the same (or both are unknown), the "greater" value wins (true over false,
+   * larger numbers over smaller) so that the result is still deterministic.
+   * Values are validated first, so that an invalid value (such as an ECOG
+   * score of 40) is dropped rather than replacing an older valid one.
+   * @param criterion the criterion to set
+   * @param value the value to set it to
+   * @param source the resource the value came from, if any
+   * @param code the code that set the value, defaults to the primary code of
+   *   the source
    */
-  addCondition(condition: Condition): void {
-    if (Array.isArray(condition.code?.coding)) {
-      for (const coding of condition.code.coding) {
-        this._addCode(coding);
-        // Also see if this is a known disease type
-        const diseaseType = findDiseaseTypeForCode(coding.system, coding.code);
-        if (diseaseType !== null) {
-          // For now, if multiple types match, just take the last one seen
-          this.typeOfDisease = diseaseType;
-        }
+  _setCriterion<K extends keyof AncoraCriteria>(
+    criterion: K,
+    value: AncoraCriteria[K],
+    source?: FhirResource,
+    code?: { system?: string; code?: string; display?: string }
+  ): void {
+    const validation = validateCriterion(criterion, value);
+    if (validation.warning !== null) {
+      debuglog('Invalid criterion: %s', validation.warning.message);
+      this._criterionWarnings.push(validation.warning);
+      if (validation.value === undefined) {
+        return;
       }
+      value = validation.value as AncoraCriteria[K];
     }
-    // Also check to see if the condition has an extension with the histology set
-    if (Array.isArray(condition.extension)) {
-      // Go through the extensions
-      for (const extension of condition.extension) {
-        if (
-          extension.url ===
-          'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-histology-morphology-behavior'
-        ) {
-          // Check if this type is recognized
-          if (
-            extension.valueCodeableConcept &&
-            Array.isArray(extension.valueCodeableConcept.coding)
-          ) {
-            // For now, just add the code directly
-            for (const code of extension.valueCodeableConcept.coding) {
-              this._addCode(code);
-            }
-          }
+    const date = source ? findResourceDate(source) : null;
+    this._recordProvenance(criterion, value, source, code);
+    const existing = this._criterions[criterion];
+    if (existing !== undefined) {
+      const existingDate = this._criterionDates.get(criterion) ?? null;
+      const newer =
+        date !== null && (existingDate === null || date > existingDate);
+      if (existing === value) {
+        // Same value, but keep the newer date
+        if (newer) {
+          this._criterionDates.set(criterion, date);
         }
+        return;
+      }
+      const replace =
+        date === existingDate ? isGreaterValue(value, existing) : newer;
+      debuglog(
+        'Conflicting values for %s: %j (%s) and %j (%s), using %j',
+        criterion,
+        existing,
+        formatDate(existingDate),
+        value,
+        formatDate(date),
+        replace ? value : existing
+      );
+      if (!replace) {
+        return;
       }
     }
+    this._criterions[criterion] = value;
+    this._criterionDates.set(criterion, date);
   }
 
   /**
-   * Adds an observation. Looks at the code and set flags based on known codes.
-   * @param observation the observation to add
+   * Records where a value for a criterion (or the type of disease) came from.
+   * @param key the criterion or type_of_disease
+   * @param value the value that was set
+   * @param source the resource the value came from, if any
+   * @param code the code that set the value, defaults to the primary code of
+   *   the source
    */
-  addObservation(observation: Observation): void {
-    if (observation.valueCodeableConcept) {
-      // Check if we know what this is
-      for (const coding of observation.valueCodeableConcept.coding) {
-        if (coding.system === SNOMED_CT_SYSTEM) {
-          let flag: boolean;
-          if (coding.code === '10828004') {
-            // Code for a positive result
-            flag = true;
-          } else if (coding.code === '260385009') {
-            // Code for a negative result
-            flag = false;
-          }
-          if (flag !== undefined) {
-            // If the flag has a known value, add all codes
-            if (Array.isArray(observation.code?.coding)) {
-              for (const codeCoding of observation.code.coding) {
-                this._addCode(codeCoding, flag);
-              }
-            }
-          }
-        }
+  _recordProvenance(
+    key: ProvenanceKey,
+    value: unknown,
+    source?: FhirResource,
+    code?: { system?: string; code?: string; display?: string }
+  ): void {
+    const record: Omit<ProvenanceRecord, 'current'> = {
+      value: value,
+      date: source ? toISODate(findResourceDate(source)) : null,
+    };
+    if (source) {
+      const reference = this._index.referenceFor(source);
+      if (reference !== undefined) {
+        record.reference = reference;
       }
+      record.resourceType = source.resourceType;
     }
-    // If the observation has an integer value, it could be an Ecog or
-    // Karnofsky score
-    if (typeof observation.valueInteger === 'number') {
-      if (Array.isArray(observation.code?.coding)) {
-        for (const coding of observation.code.coding) {
-          if (coding.system === LOINC_SYSTEM) {
-            if (coding.code === '89247-1') {
-              // Ecog
-              this._criterions.ecog = observation.valueInteger;
-            } else if (coding.code === '89243-0') {
-              // Karnosky
-              this._criterions.karnofsky = observation.valueInteger;
+    const coding = code ?? primaryCoding(source);
+    if (coding) {
+      record.code = {};
+      for (const field of ['system', 'code', 'display'] as const) {
+        if (typeof coding[field] === 'string') {
+          record.code[field] = coding[field];
+        }
+      }
+    }
+    const records = this._provenance.get(key);
+    if (records) {
+      records.push(record);
+    } else {
+      this._provenance.set(key, [record]);
+    }
+  }
+
+  /**
+   * Gets the provenance of a criterion (or the type of disease): every value
+   * that was set for it, where it came from, and whether it is the value that
+   * ends up in the query. Intended for debugging why a query contains the
+   * values it does.
+   * @param key the criterion or type_of_disease
+   * @returns the records, in the order the values were set (empty if it was
+   *   never set from the patient data)
+   */
+  getProvenance(key: ProvenanceKey): ProvenanceRecord[] {
+    const current =
+      key === 'type_of_disease' ? this.typeOfDisease : this._criterions[key];
+    return (this._provenance.get(key) ?? []).map((record) => ({
+      ...record,
+      current: current !== undefined && record.value === current,
+    }));
+  }
+
+  /**
+   * Gets the provenance of everything set from the patient data.
+   * @returns a map of each criterion (and type_of_disease) that was set to
+   *   its records (see getProvenance())
+   */
+  getAllProvenance(): Map<ProvenanceKey, ProvenanceRecord[]> {
+    const provenance = new Map<ProvenanceKey, ProvenanceRecord[]>();
+    for (const key of this._provenance.keys()) {
+      provenance.set(key, this.getProvenance(key));
+    }
+    return provenance;
+  }
+
+  /**
+   * The status policy, based on the options.
+   */
+  get statusPolicy(): StatusPolicy {
+    return {
+      includePreliminaryResults:
+        this._options.includePreliminaryResults ??
+        DEFAULT_STATUS_POLICY.includePreliminaryResults,
+      excludeInactiveDiseases:
+        this._options.excludeInactiveDiseases ??
+        DEFAULT_STATUS_POLICY.excludeInactiveDiseases,
+    };
+  }
+
+  /**
+   * Adds a condition. Looks at the code and set flags based on known codes.
+   * Refuted conditions and conditions entered in error are ignored, and only
+   * active conditions set flags for the current state of the patient (such as
+   * pregnancy).
+   * @param condition the condition to add
+   */
+  addCondition(condition: Condition): void {
+    if (isRefutedOrEnteredInError(condition)) {
+      debuglog('Ignoring refuted condition %s', condition.id);
+      return;
+    }
+    const inactive = isInactiveOrResolved(condition);
+    const detectDisease = !(
+      this.statusPolicy.excludeInactiveDiseases && inactive
+    );
+    const ignoredFlags = isActiveCondition(condition)
+      ? undefined
+      : CURRENT_STATE_FLAGS;
+    if (Array.isArray(condition.code?.coding)) {
+      for (const coding of condition.code.coding) {
+        this._addCode(coding, true, condition, ignoredFlags);
+        // Also see if this is a known disease type
+        const diseaseType = detectDisease
+          ? findDiseaseTypeForCode(coding.system, coding.code)
+          : null;
+        if (diseaseType !== null) {
+          // For a single query, if multiple types match, just take the last
+          // one seen. All types are kept for multi-disease queries.
+          this.typeOfDisease = diseaseType;
+          this.diseaseTypes.add(diseaseType);
+          this._recordProvenance(
+            'type_of_disease',
+            diseaseType,
+            condition,
+            coding
+          );
+        }
+      }
+    }
+    const menopausalStatus = findMenopausalStatus(condition.code?.coding);
+    if (menopausalStatus !== null) {
+      this._setMenopausalStatus(menopausalStatus, condition);
+    }
+    if (isBrainMetastasis(condition)) {
+      this._setCriterion('brain_metastases', true, condition);
+      this._brainMetastases.push(condition);
+    }
+    // Also check to see if the condition has an extension with the histology set
+    if (Array.isArray(condition.extension)) {
+      // Go through the extensions
+      for (const extension of condition.extension) {
+        if (
+          extension.url ===
+          'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-histology-morphology-behavior'
+        ) {
+          // Check if this type is recognized
+          if (
+            extension.valueCodeableConcept &&
+            Array.isArray(extension.valueCodeableConcept.coding)
+          ) {
+            // For now, just add the code directly
+            for (const code of extension.valueCodeableConcept.coding) {
+              this._addCode(code, true, condition);
             }
           }
         }
       }
     }
+  }
+
+  /**
+   * Adds an observation. Looks at the code and set flags based on known codes.
+   * Cancelled observations and observations entered in error are ignored, as
+   * are preliminary observations if the status policy excludes them.
+   * @param observation the observation to add
+   */
+  addObservation(observation: Observation): void {
+    if (!isUsableResultStatus(observation.status, this.statusPolicy)) {
+      debuglog(
+        'Ignoring %s observation %s',
+        observation.status,
+        observation.id
+      );
+      return;
+    }
+    // Check if this is a HER2, ER or PR result that has to be scored (such
+    // as an IHC score or a percentage of cells)
+    const receptorResult = scoreReceptorObservation(
+      observation,
+      this._options.scoringGuideline
+    );
+    if (receptorResult !== null) {
+      if (receptorResult.positive === null) {
+        debuglog('Borderline %s result, ignoring', receptorResult.flag);
+      } else {
+        this._setCriterion(
+          receptorResult.flag,
+          receptorResult.positive,
+          observation
+        );
+      }
+    }
+    // Check if this is a positive or negative result
+    const positive =
+      receptorResult === null
+        ? (this._options.positivityResolver ?? resolvePositivity)(observation)
+        : null;
+    if (positive !== null && Array.isArray(observation.code?.coding)) {
+      // If the result is known, add all codes
+      for (const codeCoding of observation.code.coding) {
+        this._addCode(codeCoding, positive, observation);
+      }
+    }
+    // Check if this is an MSI status or an MMR protein result
+    const msi = findMSIStatus(observation);
+    if (msi !== null) {
+      this._setCriterion('msi', msi, observation);
+    }
+    // Check if this is the patient's sex assigned at birth
+    const natalSex = findSexAssignedAtBirth(observation);
+    if (natalSex !== null) {
+      this._setCriterion('natal_sex', natalSex, observation);
+    }
+    // Check if this is an Ecog or Karnofsky score
+    const performanceStatus = findPerformanceStatus(observation);
+    if (performanceStatus !== null) {
+      this._setCriterion(
+        performanceStatus.criterion,
+        performanceStatus.score,
+        observation
+      );
+    }
+    // Check if this is a genetic variant observation (with a gene studied)
+    const geneticVariant = findGeneticVariant(observation);
+    if (geneticVariant !== null) {
+      for (const flag of geneticVariant.flags) {
+        this._setCriterion(flag, geneticVariant.positive, observation);
+      }
+    }
     // Check if this is a tumor stage observation
     const tumorStage = findTumorStage(observation);
     if (tumorStage !== null) {
-      this._criterions.tumor_stage = tumorStage;
+      this._setCriterion('tumor_stage', tumorStage, observation);
+    }
+    // Check if this is a TNM category, used for the stage if there is no
+    // stage group
+    const tnmValue = findTNMCategory(observation);
+    if (tnmValue !== null) {
+      this._addTNMCategory(tnmValue, observation);
+    }
+    // Check if this is a tumor size observation
+    const tumorSize = findTumorSize(observation);
+    if (tumorSize !== null) {
+      this._setCriterion('tumor_size', tumorSize, observation);
+    }
+    // Check if this is a PSA result
+    const psa = findPSA(observation);
+    if (psa !== null) {
+      this._setCriterion('psa', psa, observation);
+    }
+    // Check if this is a pregnancy status
+    const pregnant = findPregnancyStatus(observation);
+    if (pregnant !== null) {
+      this._setCriterion('pregnant_nursing', pregnant, observation);
+    }
+    // Check if this is a menopausal status
+    const menopausalStatus = findObservedMenopausalStatus(observation);
+    if (menopausalStatus !== null) {
+      this._setMenopausalStatus(menopausalStatus, observation);
+    }
+    // Disease statuses that have a focus may refer to a brain metastasis,
+    // which can only be checked once all conditions are known
+    if (
+      Array.isArray(observation.focus) &&
+      findDiseaseStatusControlled(observation) !== null
+    ) {
+      this._focusedDiseaseStatuses.push(observation);
+    }
+    // Check if this is a disease status that indicates remission or relapse
+    const diseaseStatusStage = findDiseaseStatusStage(observation);
+    if (diseaseStatusStage !== null) {
+      this._diseaseStatusStages.push({
+        stage: diseaseStatusStage,
+        observation,
+      });
     }
   }
 
   /**
    * Adds a medications statement. Looks at the code and set flags based on
-   * known codes.
+   * known codes. Medications that were not taken or are only intended and
+   * statements entered in error are ignored.
    * @param medicationStatement the medication statement to add
    */
   addMedicationStatement(medicationStatement: MedicationStatement): void {
-    // Turns out this uses the same properties as Condition
-    for (const coding of medicationStatement.medicationCodeableConcept.coding) {
-      this._addCode(coding);
+    this._addMedicationUse(
+      medicationStatement,
+      medicationStatement.status === 'active',
+      medicationStatement.status === 'completed' ||
+        medicationStatement.status === 'stopped'
+    );
+  }
+
+  /**
+   * Adds a medication request. Looks at the code and set flags based on known
+   * codes. Cancelled and draft requests, requests entered in error, and
+   * requests that aren't orders (such as plans and proposals) are ignored.
+   * @param medicationRequest the medication request to add
+   */
+  addMedicationRequest(medicationRequest: MedicationRequest): void {
+    if (!isOrderIntent(medicationRequest.intent)) {
+      debuglog(
+        'Ignoring %s MedicationRequest %s',
+        medicationRequest.intent,
+        medicationRequest.id
+      );
+      return;
+    }
+    this._addMedicationUse(
+      medicationRequest,
+      medicationRequest.status === 'active',
+      medicationRequest.status === 'completed' ||
+        medicationRequest.status === 'stopped'
+    );
+  }
+
+  /**
+   * Adds a medication administration. Looks at the code and set flags based
+   * on known codes. Administrations that were not done or were entered in
+   * error are ignored.
+   * @param medicationAdministration the medication administration to add
+   */
+  addMedicationAdministration(
+    medicationAdministration: MedicationAdministration
+  ): void {
+    this._addMedicationUse(
+      medicationAdministration,
+      medicationAdministration.status === 'in-progress',
+      medicationAdministration.status === 'completed' ||
+        medicationAdministration.status === 'stopped'
+    );
+  }
+
+  /**
+   * Adds the codes of the medication used by a medication statement, request,
+   * or administration, and tracks it as a treatment if it's cancer-related.
+   * Medications that were not taken, not done, cancelled, or entered in error
+   * are ignored.
+   * @param resource the resource to add
+   * @param active whether the treatment is ongoing
+   * @param completed whether the treatment has been completed or stopped
+   */
+  _addMedicationUse(
+    resource: MedicationStatement | MedicationRequest | MedicationAdministration,
+    active: boolean,
+    completed: boolean
+  ): void {
+    if (!isUsableTreatmentStatus(resource.status)) {
+      debuglog(
+        'Ignoring %s %s %s',
+        resource.status,
+        resource.resourceType,
+        resource.id
+      );
+      return;
+    }
+    const coding = this._resolveMedicationCoding(resource);
+    if (!Array.isArray(coding)) {
+      debuglog('Unable to find medication codes for %s', resource.id);
+      return;
+    }
+    for (const code of coding) {
+      this._addCode(code, true, resource);
+    }
+    if (isCancerRelatedTreatment(resource, coding)) {
+      if (active) {
+        this._activeTreatments.push(resource);
+      } else if (completed) {
+        this._completedTreatments.push(resource);
+      }
+    }
+  }
+
+  /**
+   * Finds the codes of the medication used by a resource, either directly from
+   * medicationCodeableConcept or by resolving medicationReference to a
+   * Medication contained within the resource or elsewhere in the bundle.
+   * @param resource the resource to find the medication of
+   * @returns the medication codes or undefined if there are none
+   */
+  _resolveMedicationCoding(
+    resource: MedicationStatement | MedicationRequest | MedicationAdministration
+  ): Coding[] | undefined {
+    if (resource.medicationCodeableConcept) {
+      return resource.medicationCodeableConcept.coding;
+    }
+    const medication = this._index.resolveAs(
+      resource.medicationReference,
+      'Medication',
+      resource
+    );
+    return medication?.code?.coding;
+  }
+
+  /**
+   * Adds a diagnostic report. Results within the bundle are added on their
+   * own, so this only adds results contained within the report. The status of
+   * the report applies to its contained results as well.
+   * @param report the diagnostic report to add
+   */
+  addDiagnosticReport(report: DiagnosticReport): void {
+    if (
+      !Array.isArray(report.result) ||
+      !isUsableResultStatus(report.status, this.statusPolicy)
+    ) {
+      return;
+    }
+    for (const result of report.result) {
+      if (result.reference?.startsWith('#')) {
+        const observation = this._index.resolveAs(
+          result,
+          'Observation',
+          report
+        );
+        if (observation) {
+          this.addObservation(observation);
+        }
+      }
     }
   }
 
   addProcedure(procedure: Procedure): void {
+    if (!isUsableTreatmentStatus(procedure.status)) {
+      debuglog('Ignoring %s procedure %s', procedure.status, procedure.id);
+      return;
+    }
+    if (isCancerRelatedTreatment(procedure, procedure.code?.coding)) {
+      if (procedure.status === 'in-progress') {
+        this._activeTreatments.push(procedure);
+      } else if (procedure.status === 'completed') {
+        this._completedTreatments.push(procedure);
+      }
+    }
     // For now, require procedures to be completed
     if (procedure.status === 'completed') {
       // For now, just add whatever codes we can
       if (procedure.code && Array.isArray(procedure.code.coding)) {
         for (const coding of procedure.code.coding) {
-          this._addCode(coding);
+          this._addCode(coding, true, procedure);
         }
       }
     }
   }
 
+  /**
+   * Infers the hematologic treatment stage from the disease statuses and
+   * treatments found, once the entire bundle has been processed. This is only
+   * done for hematologic cancers, where the treatment stage criteria apply.
+   */
+  _inferTreatmentStage(): void {
+    const isHematologic =
+      (this.typeOfDisease !== null &&
+        HEMATOLOGIC_DISEASES.has(this.typeOfDisease)) ||
+      Array.from(this.diseaseTypes).some((disease) =>
+        HEMATOLOGIC_DISEASES.has(disease)
+      );
+    if (!isHematologic) {
+      return;
+    }
+    // Both flags are set so that the most recent status wins for both
+    for (const { stage, observation } of this._diseaseStatusStages) {
+      this._setCriterion('remission', stage === 'remission', observation);
+      this._setCriterion('relapsed', stage === 'relapsed', observation);
+    }
+    for (const treatment of this._activeTreatments) {
+      this._setCriterion('in_treatment', true, treatment);
+    }
+    if (this._activeTreatments.length === 0) {
+      // Completed treatments mean the patient isn't currently in treatment
+      for (const treatment of this._completedTreatments) {
+        this._setCriterion('in_treatment', false, treatment);
+      }
+    }
+    const treated =
+      this._activeTreatments.length > 0 ||
+      this._completedTreatments.length > 0 ||
+      this._criterions.remission === true ||
+      this._criterions.relapsed === true;
+    // A lack of treatment data doesn't mean the patient is untreated, as the
+    // treatments may simply be missing from the bundle
+    if (treated) {
+      this._setCriterion('untreated', false);
+    }
+  }
+
+  /**
+   * Infers whether brain metastases are controlled from their clinical status
+   * and any disease status observations about them, once the entire bundle
+   * has been processed. For AML patients, CNS involvement also sets
+   * cns_leukemia.
+   */
+  _inferBrainMetastasesControl(): void {
+    for (const condition of this._brainMetastases) {
+      const controlled = isConditionControlled(condition);
+      if (controlled !== null) {
+        this._setBrainMetastasesControlled(controlled, condition);
+      }
+    }
+    for (const observation of this._focusedDiseaseStatuses) {
+      const isAboutBrainMetastasis = observation.focus.some((focus) =>
+        this._brainMetastases.includes(
+          this._index.resolveAs(focus, 'Condition', observation)
+        )
+      );
+      if (isAboutBrainMetastasis) {
+        this._setBrainMetastasesControlled(
+          findDiseaseStatusControlled(observation) === true,
+          observation
+        );
+      }
+    }
+    if (
+      this._brainMetastases.length > 0 &&
+      (this.typeOfDisease === 'acute_myeloid_leukemia' ||
+        this.diseaseTypes.has('acute_myeloid_leukemia'))
+    ) {
+      for (const condition of this._brainMetastases) {
+        this._setCriterion('cns_leukemia', true, condition);
+      }
+    }
+  }
+
+  /**
+   * Sets both the controlled and uncontrolled brain metastases flags, so that
+   * the most recent status wins for both.
+   */
+  _setBrainMetastasesControlled(
+    controlled: boolean,
+    source: FhirResource
+  ): void {
+    this._setCriterion('controlled_brain_metastases', controlled, source);
+    this._setCriterion('uncontrolled_brain_metastases', !controlled, source);
+  }
+
+  /**
+   * Adds an allergy. Only medication allergies are used (to set
+   * allergies_to_medication). Intolerances, as opposed to allergies, and
+   * refuted, inactive, or resolved allergies are ignored.
+   * @param allergy the allergy to add
+   */
+  addAllergyIntolerance(allergy: AllergyIntolerance): void {
+    if (allergy.type === 'intolerance') {
+      return;
+    }
+    if (isRefutedOrEnteredInError(allergy) || isInactiveOrResolved(allergy)) {
+      return;
+    }
+    const coding = allergy.code?.coding;
+    // Medication allergies are either categorized as such or coded using a
+    // medication code
+    if (
+      (Array.isArray(allergy.category) &&
+        allergy.category.includes('medication')) ||
+      (Array.isArray(coding) &&
+        coding.some(
+          (code) => normalizeSystem(code?.system) === RX_NORM_SYSTEM
+        ))
+    ) {
+      this._setCriterion('allergies_to_medication', true, allergy);
+    }
+    // Allergy codes may themselves indicate a medication allergy. Only the
+    // comorbidity flags are checked: the medication codes in an allergy must
+    // not be treated as treatments.
+    if (Array.isArray(coding)) {
+      for (const code of coding) {
+        if (typeof code?.system === 'string' && typeof code.code === 'string') {
+          const flags = findComorbidityFlagsForCode(code.system, code.code);
+          if (flags) {
+            for (const flag of flags) {
+              this._setCriterion(flag, true, allergy);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Sets both menopausal status flags so that the most recent status wins for
+   * both.
+   */
+  _setMenopausalStatus(
+    status: MenopausalStatus,
+    source?: FhirResource
+  ): void {
+    this._setCriterion('premenopausal', status === 'premenopausal', source);
+    this._setCriterion('postmenopausal', status === 'postmenopausal', source);
+  }
+
+  /**
+   * If no menopausal status was found for a female patient, infers it from
+   * their age (unless the fallback has been disabled). When the natal sex is
+   * unknown, the patient's gender decides whether they are female.
+   */
+  _inferMenopausalStatus(): void {
+    const fallback =
+      this._options.menopausalAgeFallback ?? DEFAULT_MENOPAUSAL_AGE_FALLBACK;
+    const female =
+      this._criterions.natal_sex === undefined
+        ? this._gender?.gender === 'female'
+        : this._criterions.natal_sex === 'female';
+    if (
+      fallback === false ||
+      !female ||
+      this._criterions.age === undefined ||
+      this._criterions.premenopausal !== undefined ||
+      this._criterions.postmenopausal !== undefined
+    ) {
+      return;
+    }
+    const age = this._criterions.age;
+    let status: MenopausalStatus | null = null;
+    if (age < fallback.premenopausalBelow) {
+      status = 'premenopausal';
+    } else if (age >= fallback.postmenopausalFrom) {
+      status = 'postmenopausal';
+    }
+    if (status !== null) {
+      debuglog(
+        'Inferred %s from age %d (no menopausal status found)',
+        status,
+        age
+      );
+      this._setMenopausalStatus(status);
+    }
+  }
+
+  /**
+   * Records a TNM category value, keeping only the most recent one for each
+   * category.
+   */
+  _addTNMCategory(value: TNMValue, observation: Observation): void {
+    const existing = this._tnmCategories.get(value.category);
+    if (existing) {
+      const date = findResourceDate(observation);
+      const existingDate = findResourceDate(existing.observation);
+      if (date === null || (existingDate !== null && date <= existingDate)) {
+        return;
+      }
+    }
+    this._tnmCategories.set(value.category, { value, observation });
+  }
+
+  /**
+   * If no stage group was found, derives the tumor stage from the TNM
+   * categories once the entire bundle (and so the disease) is known.
+   */
+  _inferTumorStageFromTNM(): void {
+    if (
+      this._criterions.tumor_stage !== undefined ||
+      this._tnmCategories.size === 0
+    ) {
+      return;
+    }
+    this._tumorStageFromTNM = true;
+    const derived = this._stageFromTNM(this.typeOfDisease);
+    if (derived !== null) {
+      this._setCriterion('tumor_stage', derived.stage, derived.source);
+    }
+  }
+
+  /**
+   * Derives the tumor stage from the TNM categories using the staging rules
+   * for a type of disease.
+   * @param typeOfDisease the type of disease
+   * @returns the stage and the most recent TNM category observation, or null
+   *   if no stage could be derived
+   */
+  _stageFromTNM(
+    typeOfDisease: AncoraQueryDisease | null
+  ): { stage: number; source: Observation } | null {
+    const tnm: Partial<Record<TNMCategory, TNMValue>> = {};
+    let source: Observation | undefined;
+    let sourceDate: number | null = null;
+    for (const [category, { value, observation }] of this._tnmCategories) {
+      tnm[category] = value;
+      const date = findResourceDate(observation);
+      if (
+        source === undefined ||
+        (date !== null && (sourceDate === null || date > sourceDate))
+      ) {
+        source = observation;
+        sourceDate = date;
+      }
+    }
+    const stage = stageFromTNM(tnm, typeOfDisease);
+    if (stage === null || source === undefined) {
+      return null;
+    }
+    debuglog(
+      'Derived tumor stage %d for %s from TNM categories %j',
+      stage,
+      typeOfDisease,
+      tnm
+    );
+    return { stage, source };
+  }
+
+  /**
+   * If only one of the ECOG or Karnofsky scores was found, converts it to the
+   * other, flagging the converted score as derived.
+   */
+  _inferPerformanceStatus(): void {
+    const { ecog, karnofsky } = this._criterions;
+    if (ecog !== undefined && karnofsky === undefined) {
+      this._setDerivedCriterion('karnofsky', ecogToKarnofsky(ecog));
+    } else if (karnofsky !== undefined && ecog === undefined) {
+      this._setDerivedCriterion('ecog', karnofskyToEcog(karnofsky));
+    }
+  }
+
+  /**
+   * Sets a criterion derived from other criteria, if a value could be
+   * derived.
+   */
+  _setDerivedCriterion<K extends keyof AncoraCriteria>(
+    criterion: K,
+    value: AncoraCriteria[K] | null
+  ): void {
+    if (value === null) {
+      return;
+    }
+    debuglog('Derived %s of %j', criterion, value);
+    this._setCriterion(criterion, value);
+    this.derivedCriteria.add(criterion);
+  }
+
+  /**
+   * Calculates the patient's age as of the reference date, once the entire
+   * bundle (including any referenceDate parameter) has been processed.
+   */
+  _calculateAge(): void {
+    if (this._birthDate === null) {
+      return;
+    }
+    const birthDate = this._birthDate;
+    const today = this.referenceDate;
+    // Calculate age
+    let age = today.getUTCFullYear() - birthDate.getUTCFullYear();
+    if (
+      today.getUTCMonth() < birthDate.getUTCMonth() ||
+      (today.getUTCMonth() == birthDate.getUTCMonth() &&
+        today.getUTCDate() < birthDate.getUTCDate())
+    ) {
+      // In this case, the age is off by one, as it's before the birthdate in the current year
+      age -= 1;
+    }
+    // Clamp age to 1-100
+    this._criterions.age = Math.max(1, Math.min(100, age));
+    this._recordProvenance(
+      'age',
+      this._criterions.age,
+      this._patient ?? undefined
+    );
+  }
+
+  /**
+   * The date the query is built as of, used for the patient's age and any
+   * other time-based logic. This is the referenceDate option if given, then
+   * the referenceDate search parameter, then the current date.
+   */
+  get referenceDate(): Date {
+    return (
+      this._options.referenceDate ??
+      this._referenceDateParameter ??
+      new Date()
+    );
+  }
+
   addPatient(patient: Patient): void {
     if (patient.birthDate) {
       // For now, just parse out the date part
@@ -486,72 +1880,158 @@ export class AncoraAPIQuery {
         patient.birthDate
       );
       if (birthDateParts) {
+        this._patient = patient;
         // To avoid time zone shenanigans as much as possible (mainly, any DST
         // weirdness), parse as a UTC date
-        const birthDate = new Date(
+        this._birthDate = new Date(
           Date.UTC(
             Number(birthDateParts[1]),
             birthDateParts[2] === undefined ? 0 : Number(birthDateParts[2]) - 1,
             birthDateParts[3] === undefined ? 1 : Number(birthDateParts[3])
           )
         );
-        const today = new Date();
-        // Calculate age
-        let age = today.getUTCFullYear() - birthDate.getUTCFullYear();
-        if (
-          today.getUTCMonth() < birthDate.getUTCMonth() ||
-          (today.getUTCMonth() == birthDate.getUTCMonth() &&
-            today.getUTCDate() < birthDate.getUTCDate())
-        ) {
-          // In this case, the age is off by one, as it's before the birthdate in the current year
-          age -= 1;
-        }
-        // Clamp age to 1-100
-        this._criterions.age = Math.max(1, Math.min(100, age));
       }
     }
-    // Using the gender field is probably, strictly speaking, inaccurate
+    // Use the home address (or the first address with a country or postal
+    // code) for the location if there are no search parameters for it
+    if (Array.isArray(patient.address)) {
+      const address = [
+        ...patient.address.filter((address) => address.use === 'home'),
+        ...patient.address,
+      ].find(
+        (address) =>
+          typeof address.country === 'string' ||
+          typeof address.postalCode === 'string'
+      );
+      this._addressCountry = normalizeCountry(address?.country);
+      this._addressPostalCode = address?.postalCode ?? null;
+    }
+    const birthSex = findBirthSex(patient);
+    if (birthSex !== null) {
+      this._setCriterion('natal_sex', birthSex, patient);
+    }
+    // Gender is only used if configured to and there is no better source
     const gender = patient.gender;
     if (gender === 'male' || gender === 'female') {
-      this._criterions.natal_sex = gender;
+      this._gender = { gender, patient };
+    }
+  }
+
+  /**
+   * If configured to and the natal sex wasn't found, uses the patient's
+   * gender for it.
+   */
+  _inferNatalSexFromGender(): void {
+    if (
+      this._options.natalSexFromGender !== true ||
+      this._gender === null ||
+      this._criterions.natal_sex !== undefined
+    ) {
+      return;
     }
+    debuglog('Using gender %s for natal sex', this._gender.gender);
+    this._setCriterion('natal_sex', this._gender.gender, this._gender.patient);
   }
 
   /**
    * Create an AncoraQuery based on properties within this object. If
    * typeOfDisease is `null` this will throw an exception, as the type of
    * disease must be set within the final query.
+   * @param typeOfDisease the type of disease to query for, defaults to
+   *   typeOfDisease
    * @return the query object
    */
-  toQuery(): AncoraQuery {
-    if (this.typeOfDisease == null) {
+  toQuery(
+    typeOfDisease: AncoraQueryDisease | null = this.typeOfDisease
+  ): AncoraQuery {
+    if (typeOfDisease == null) {
       throw new Error(
         'No supported type of disease found within patient data, cannot generate a valid query.'
       );
     }
-    // TODO (maybe): Clone the criterions object?
+    const country = this._country ?? this._addressCountry ?? DEFAULT_COUNTRY;
+    const { criteria, warnings } = validateCriteria(
+      this._criteriaFor(typeOfDisease)
+    );
+    for (const warning of warnings) {
+      debuglog('Invalid criterion: %s', warning.message);
+    }
+    this.validationWarnings = [...this._criterionWarnings, ...warnings];
     const query: AncoraQuery = {
-      // FIXME: Currently hard-coded
-      country: 'US',
-      criterions: this._criterions,
-      type_of_disease: this.typeOfDisease,
+      country: country,
+      criterions: criteria,
+      type_of_disease: typeOfDisease,
     };
-    if (this._zipCode !== null) {
-      query.zip_code = this._zipCode;
-    }
-    if (this._travelRadius === null) {
-      // Set a default since the radius is required
-      query.radius = 100;
-      query.radius_unit = 'MI';
-    } else {
-      query.radius = this._travelRadius;
-      query.radius_unit = 'MI';
+    const postalCode = this._zipCode ?? this._addressPostalCode;
+    if (postalCode !== null) {
+      const zipCode = normalizePostalCode(country, postalCode);
+      if (zipCode === null) {
+        debuglog(
+          'Ignoring postal code %j, not valid for %s',
+          postalCode,
+          country
+        );
+      } else {
+        query.zip_code = zipCode;
+        const location = this._options.geocoder?.geocode(country, zipCode);
+        if (location) {
+          query.location = location;
+        }
+      }
     }
+    // Set a default since the radius is required
+    query.radius = this._travelRadius ?? DEFAULT_RADIUS[this._radiusUnit];
+    query.radius_unit = this._radiusUnit;
 
     console.log('query', JSON.stringify(query));
     return query;
   }
 
+  /**
+   * Gets the criteria for a query for a type of disease. In multi-disease
+   * mode, a tumor stage derived from TNM categories is derived again using
+   * the staging rules for the type of disease, and criteria that don't apply
+   * to the type of disease are left out.
+   * @param typeOfDisease the type of disease being queried for
+   * @returns a copy of the criteria for the type of disease
+   */
+  _criteriaFor(typeOfDisease: AncoraQueryDisease): AncoraCriteria {
+    const criteria: AncoraCriteria = { ...this._criterions };
+    if (this._tumorStageFromTNM && typeOfDisease !== this.typeOfDisease) {
+      const derived = this._stageFromTNM(typeOfDisease);
+      if (derived === null) {
+        delete criteria.tumor_stage;
+      } else {
+        criteria.tumor_stage = derived.stage;
+      }
+    }
+    for (const [criterion, diseases] of DISEASE_SPECIFIC_CRITERIA) {
+      if (!diseases.has(typeOfDisease)) {
+        delete criteria[criterion];
+      }
+    }
+    return criteria;
+  }
+
+  /**
+   * Create one AncoraQuery per type of disease found within the patient data.
+   * If no type of disease was found, this is the same as toQuery() (including
+   * throwing an exception if there is no default type of disease).
+   * @return a map of the types of disease to their query objects
+   */
+  toQueries(): Map<AncoraQueryDisease, AncoraQuery> {
+    const queries = new Map<AncoraQueryDisease, AncoraQuery>();
+    if (this.diseaseTypes.size === 0) {
+      const query = this.toQuery();
+      queries.set(query.type_of_disease, query);
+    } else {
+      for (const diseaseType of this.diseaseTypes) {
+        queries.set(diseaseType, this.toQuery(diseaseType));
+      }
+    }
+    return queries;
+  }
+
   /**
    * Generates a debug string for the query.
    * @returns a string representation of the query
@@ -566,6 +2046,110 @@ export class AncoraAPIQuery {
     }
     return `[AncoraAPIQuery ${JSON.stringify(this.toQuery())}]`;
   }
+
+  /**
+   * Create the filter for the search parameters Ancora can't handle itself.
+   * @return the filter to apply to the results
+   */
+  toTrialFilter(): TrialFilter {
+    const filter: TrialFilter = {};
+    const phases = parseListParameter(this._phase);
+    if (phases !== null) {
+      filter.phases = phases;
+    }
+    const recruitmentStatuses = parseListParameter(this._recruitmentStatus);
+    if (recruitmentStatuses !== null) {
+      filter.recruitmentStatuses = recruitmentStatuses;
+    }
+    return filter;
+  }
+}
+
+/**
+ * Filter applied to the trials Ancora returns, for search parameters Ancora
+ * can't handle itself. Trials are matched on their FHIR ResearchStudy phase
+ * and status codes.
+ */
+export interface TrialFilter {
+  phases?: Set<string>;
+  recruitmentStatuses?: Set<string>;
+}
+
+/**
+ * Parses a comma separated search parameter into a set of FHIR codes. Values
+ * are normalized the way display values are converted to codes, so "Phase 2"
+ * becomes "phase-2".
+ * @param value the parameter value
+ * @returns the codes, or null if there were none
+ */
+export function parseListParameter(
+  value: string | null | undefined
+): Set<string> | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const codes = value
+    .split(',')
+    .map((code) => code.trim().toLowerCase().replace(/[ /]+/g, '-'))
+    .filter((code) => code.length > 0);
+  return codes.length > 0 ? new Set<string>(codes) : null;
+}
+
+/**
+ * Determines if a research study matches the filter. Studies that span
+ * multiple phases (such as "phase-1-phase-2") match each of their phases.
+ * Studies with no known phase or status never match a filter on it.
+ * @param study the study to check
+ * @param filter the filter
+ * @param statusKnown false if the study's status is only the default the
+ *     ResearchStudy was created with
+ * @returns true if the study should be kept
+ */
+export function matchesTrialFilter(
+  study: FhirResearchStudy,
+  filter: TrialFilter,
+  statusKnown = true
+): boolean {
+  if (filter.phases) {
+    const phase = study.phase?.coding?.[0]?.code;
+    if (phase === undefined) {
+      return false;
+    }
+    const phases = [phase, ...(phase.match(/phase-\d/g) ?? [])];
+    if (!phases.some((code) => filter.phases.has(code))) {
+      return false;
+    }
+  }
+  if (filter.recruitmentStatuses) {
+    if (!statusKnown || !filter.recruitmentStatuses.has(study.status)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Removes the entries that don't match the filter.
+ * @param entries the entries to filter
+ * @param filter the filter
+ * @param unknownStatuses the studies with no known status
+ */
+function filterEntries(
+  entries: SearchBundleEntry[],
+  filter: TrialFilter,
+  unknownStatuses: Set<FhirResearchStudy>
+): SearchBundleEntry[] {
+  return entries.filter((entry) => {
+    const matches = matchesTrialFilter(
+      entry.resource,
+      filter,
+      !unknownStatuses.has(entry.resource)
+    );
+    if (!matches) {
+      debuglog('Filtered out trial %s', entry.resource.id);
+    }
+    return matches;
+  });
 }
 
 /**
@@ -575,18 +2159,25 @@ export class AncoraAPIQuery {
  * @param ctgService an optional ClinicalTrialGovService which can be used to
  *     update the returned trials with additional information pulled from
  *     ClinicalTrials.gov
+ * @param filter an optional filter for the trials (for search parameters
+ *     Ancora doesn't support)
  */
 export async function convertResponseToSearchSet(
   response: AncoraResponse,
-  ctgService?: ClinicalTrialsGovService
+  ctgService?: ClinicalTrialsGovService,
+  filter: TrialFilter = {}
 ): Promise<SearchSet> {
   // Our final response
   const entries: SearchBundleEntry[] = [];
+  const unknownStatuses = new Set<FhirResearchStudy>();
   // For generating IDs
   let id = 0;
   for (const trial of response) {
     if (isAncoraTrial(trial)) {
       const entry: SearchBundleEntry = convertToSearchSetEntry(trial, id++);
+      if (convertRecruitingStatus(trial.recruiting_status) === undefined) {
+        unknownStatuses.add(entry.resource);
+      }
       entries.push(entry);
     } else {
       // This trial could not be understood. It can be ignored if that should
@@ -595,12 +2186,144 @@ export async function convertResponseToSearchSet(
     }
   }
 
+  return createSearchSet(entries, ctgService, filter, unknownStatuses);
+}
+
+/**
+ * Merges the responses from multiple queries into a single search set. Trials
+ * are de-duplicated by trial ID, keeping whichever copy has the best match
+ * score, and each entry records the disease query that produced that copy.
+ *
+ * @param responses the responses from each disease query
+ * @param ctgService an optional ClinicalTrialGovService which can be used to
+ *     update the returned trials with additional information pulled from
+ *     ClinicalTrials.gov
+ * @param filter an optional filter for the trials (for search parameters
+ *     Ancora doesn't support)
+ */
+export async function convertResponsesToSearchSet(
+  responses: Map<AncoraQueryDisease, AncoraResponse>,
+  ctgService?: ClinicalTrialsGovService,
+  filter: TrialFilter = {}
+): Promise<SearchSet> {
+  const bestTrials = new Map<
+    string,
+    { trial: AncoraTrial; disease: AncoraQueryDisease }
+  >();
+  for (const [disease, response] of responses) {
+    for (const trial of response) {
+      if (isAncoraTrial(trial)) {
+        const existing = bestTrials.get(trial.trial_id);
+        if (
+          existing === undefined ||
+          (trial.ancora_match_score || 0) >
+            (existing.trial.ancora_match_score || 0)
+        ) {
+          bestTrials.set(trial.trial_id, { trial, disease });
+        }
+      } else {
+        debuglog('Unable to parse trial from server: %o', trial);
+      }
+    }
+  }
+  // Trials from different queries are interleaved, so sort them by score
+  // (Array.prototype.sort is stable so ties keep the order they were seen in)
+  const sortedTrials = Array.from(bestTrials.values()).sort(
+    (a, b) => (b.trial.ancora_match_score || 0) - (a.trial.ancora_match_score || 0)
+  );
+  const entries: SearchBundleEntry[] = [];
+  const unknownStatuses = new Set<FhirResearchStudy>();
+  let id = 0;
+  for (const { trial, disease } of sortedTrials) {
+    const entry: SearchBundleEntry = convertToSearchSetEntry(trial, id++);
+    if (convertRecruitingStatus(trial.recruiting_status) === undefined) {
+      unknownStatuses.add(entry.resource);
+    }
+    entry.search.extension = [
+      {
+        url: DISEASE_QUERY_EXTENSION_URL,
+        valueString: disease,
+      },
+    ];
+    entries.push(entry);
+  }
+  return createSearchSet(entries, ctgService, filter, unknownStatuses);
+}
+
+/**
+ * Adds the provenance of the criteria sent in the query to each entry in the
+ * search set, as QUERY_PROVENANCE_EXTENSION_URL extensions on the entry's
+ * search element. Only the values that ended up in the query are included.
+ * For entries from a multi-disease query, the type of disease is the one the
+ * entry's query was for.
+ * @param searchSet the search set to add the extensions to
+ * @param query the query the search set was produced by
+ */
+export function addProvenanceExtensions(
+  searchSet: SearchSet,
+  query: AncoraAPIQuery
+): void {
+  const provenance = query.getAllProvenance();
+  for (const entry of searchSet.entry) {
+    const search = entry.search ?? (entry.search = {});
+    const typeOfDisease =
+      search.extension?.find(
+        (extension) => extension.url === DISEASE_QUERY_EXTENSION_URL
+      )?.valueString ?? query.typeOfDisease;
+    const extensions = search.extension ?? (search.extension = []);
+    for (const [key, records] of provenance) {
+      for (const record of records) {
+        if (
+          key === 'type_of_disease'
+            ? record.value !== typeOfDisease
+            : !record.current
+        ) {
+          continue;
+        }
+        const extension: Extension = {
+          url: QUERY_PROVENANCE_EXTENSION_URL,
+          extension: [
+            { url: 'criterion', valueString: key },
+            { url: 'value', valueString: JSON.stringify(record.value) },
+          ],
+        };
+        if (record.reference !== undefined) {
+          extension.extension.push({
+            url: 'source',
+            valueReference: { reference: record.reference },
+          });
+        }
+        if (record.code !== undefined) {
+          extension.extension.push({ url: 'code', valueCoding: record.code });
+        }
+        extensions.push(extension);
+      }
+    }
+  }
+}
+
+/**
+ * Creates the final search set, updating the entries through the given
+ * ClinicalTrialsGovService if there is one. The filter is applied after the
+ * update, as the update replaces each entry's resource (including its phase
+ * and status). A replaced resource's status comes from ClinicalTrials.gov, so
+ * it no longer counts as unknown.
+ * @param entries the entries
+ * @param ctgService the service to update the entries with, if any
+ * @param filter the filter for the trials
+ * @param unknownStatuses the studies Ancora gave no known status for
+ */
+async function createSearchSet(
+  entries: SearchBundleEntry[],
+  ctgService: ClinicalTrialsGovService | undefined,
+  filter: TrialFilter,
+  unknownStatuses: Set<FhirResearchStudy>
+): Promise<SearchSet> {
   if (ctgService) {
     // If given a backup service, use it
-    return new SearchSet(await ctgService.updateSearchSetEntries(entries));
-  } else {
-    return new SearchSet(entries);
+    entries = await ctgService.updateSearchSetEntries(entries);
   }
+  return new SearchSet(filterEntries(entries, filter, unknownStatuses));
 }
 
 /**
@@ -619,7 +2342,58 @@ async function sendQuery(
   apiKey: string,
   ctgService?: ClinicalTrialsGovService
 ): Promise<SearchSet> {
-  const queryJsonObject = query.toQuery();
+  const response = await fetchTrials(endpoint, query.toQuery(), apiKey);
+  return convertResponseToSearchSet(
+    response,
+    ctgService,
+    query.toTrialFilter()
+  );
+}
+
+/**
+ * Sends one query per type of disease found within the patient data and
+ * merges the results.
+ *
+ * @param endpoint the URL of the end point to send the query to
+ * @param query the query to send
+ * @param apiKey the API key to send
+ * @param ctgService an optional ClinicalTrialGovService which can be used to
+ *     update the returned trials with additional information pulled from
+ *     ClinicalTrials.gov
+ */
+async function sendMultiDiseaseQuery(
+  endpoint: string,
+  query: AncoraAPIQuery,
+  apiKey: string,
+  ctgService?: ClinicalTrialsGovService
+): Promise<SearchSet> {
+  const queries = Array.from(query.toQueries());
+  const responses = await Promise.all(
+    queries.map(([, queryJsonObject]) =>
+      fetchTrials(endpoint, queryJsonObject, apiKey)
+    )
+  );
+  return convertResponsesToSearchSet(
+    new Map<AncoraQueryDisease, AncoraResponse>(
+      queries.map(([disease], index) => [disease, responses[index]])
+    ),
+    ctgService,
+    query.toTrialFilter()
+  );
+}
+
+/**
+ * Sends a single query object to the server and returns the raw response.
+ *
+ * @param endpoint the URL of the end point to send the query to
+ * @param queryJsonObject the query to send
+ * @param apiKey the API key to send
+ */
+async function fetchTrials(
+  endpoint: string,
+  queryJsonObject: AncoraQuery,
+  apiKey: string
+): Promise<AncoraResponse> {
   debuglog('Running query: %o', queryJsonObject);
   querylog('Generated query: %j', queryJsonObject);
   const response = await fetch(endpoint, {
@@ -641,8 +2415,8 @@ async function sendQuery(
     }
     debuglog('Response object: %j', result);
     // Response object should be an array
-    if (Array.isArray(result)) {
-      return convertResponseToSearchSet(result, ctgService);
+    if (isAncoraResponse(result)) {
+      return result;
     } else if (isQueryErrorResponse(result)) {
       throw new APIError(
         `Error from service: ${result.error}`,
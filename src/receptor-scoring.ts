@@ -0,0 +1,304 @@
+/**
+ * Scoring rules for breast cancer receptor tests: HER2 immunohistochemistry
+ * (IHC) scores and in situ hybridization (ISH) results, and ER/PR
+ * percent-positive results. The rules follow the ASCO/CAP guidelines, in a
+ * simplified form that only produces a positive or negative result.
+ */
+
+import { CodeableConcept, Observation, Quantity } from 'fhir/r4';
+import { LOINC_SYSTEM, normalizeSystem } from './ancora-mapping-data';
+import { findQueryFlagsForCode } from './ancora-mappings';
+import { ucumUnitFor } from './ucum';
+
+export type ReceptorFlag = 'her2' | 'er' | 'pr';
+
+/**
+ * The rules from a version of the ASCO/CAP guidelines.
+ */
+export interface ScoringGuideline {
+  /**
+   * The minimum percentage of tumor cells staining for ER or PR for the
+   * result to be positive.
+   */
+  hormoneReceptorPositiveFrom: number;
+  /**
+   * Determines whether a HER2 ISH result is amplified from the HER2/CEP17
+   * ratio and the average HER2 copy number per cell, either of which may be
+   * missing.
+   * @returns true if amplified, false if not, or null if equivocal (or
+   *   dependent on a concurrent IHC result)
+   */
+  ishAmplified: (
+    ratio: number | null,
+    copyNumber: number | null
+  ) => boolean | null;
+}
+
+export type ScoringGuidelineVersion = '2013' | '2018';
+
+export const SCORING_GUIDELINES: Record<
+  ScoringGuidelineVersion,
+  ScoringGuideline
+> = {
+  '2013': {
+    hormoneReceptorPositiveFrom: 1,
+    ishAmplified: (ratio, copyNumber) => {
+      if (
+        (ratio !== null && ratio >= 2) ||
+        (copyNumber !== null && copyNumber >= 6)
+      ) {
+        return true;
+      }
+      if (copyNumber !== null && copyNumber >= 4) {
+        // Equivocal
+        return null;
+      }
+      return ratio !== null || copyNumber !== null ? false : null;
+    },
+  },
+  '2018': {
+    hormoneReceptorPositiveFrom: 1,
+    ishAmplified: (ratio, copyNumber) => {
+      if (ratio === null) {
+        if (copyNumber === null) {
+          return null;
+        }
+        return copyNumber >= 6 ? true : copyNumber < 4 ? false : null;
+      }
+      if (copyNumber === null) {
+        return ratio >= 2;
+      }
+      if (ratio >= 2) {
+        // Group 1 is positive, group 2 (fewer than 4 copies) is negative
+        return copyNumber >= 4;
+      }
+      // Groups 3 and 4 depend on the concurrent IHC result, group 5 is
+      // negative
+      return copyNumber >= 4 ? null : false;
+    },
+  },
+};
+
+export const DEFAULT_SCORING_GUIDELINE = SCORING_GUIDELINES['2018'];
+
+/**
+ * The result of scoring a receptor observation.
+ */
+export interface ReceptorResult {
+  flag: ReceptorFlag;
+  /**
+   * Whether the result is positive, or null if it is borderline (such as a
+   * HER2 IHC score of 2+) and should not be used.
+   */
+  positive: boolean | null;
+}
+
+/**
+ * LOINC codes for HER2 tests by immune stain, used to know that a plain
+ * number is an IHC score.
+ */
+const HER2_IHC_LOINC_CODES = new Set<string>(['18474-7', '85319-2']);
+
+function receptorFlagFor(
+  concept: CodeableConcept | undefined
+): ReceptorFlag | null {
+  const coding = concept?.coding;
+  if (Array.isArray(coding)) {
+    for (const code of coding) {
+      if (typeof code?.system !== 'string' || typeof code.code !== 'string') {
+        continue;
+      }
+      const flag = findQueryFlagsForCode(code.system, code.code)?.find(
+        (flag) => flag === 'her2' || flag === 'er' || flag === 'pr'
+      );
+      if (flag) {
+        return flag as ReceptorFlag;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Gets the text of the value of an observation: the string value, or the
+ * text and displays of a coded value.
+ */
+function valueTexts(observation: Observation): string[] {
+  const texts: string[] = [];
+  if (typeof observation.valueString === 'string') {
+    texts.push(observation.valueString);
+  }
+  const concept = observation.valueCodeableConcept;
+  if (typeof concept?.text === 'string') {
+    texts.push(concept.text);
+  }
+  if (Array.isArray(concept?.coding)) {
+    for (const code of concept.coding) {
+      if (typeof code?.display === 'string') {
+        texts.push(code.display);
+      }
+    }
+  }
+  return texts;
+}
+
+/**
+ * Parses a HER2 IHC score, such as "3+", "Score 1+", "0" or "Positive (3+)".
+ * @param text the text to parse
+ * @returns the score (0-3) or null if it isn't one
+ */
+export function parseIHCScore(text: string): number | null {
+  const match =
+    /^\s*(?:IHC\s*)?(?:score\s*)?([0-3])\s*\+?\s*$/i.exec(text) ??
+    /\(\s*([0-3])\s*\+?\s*\)/.exec(text) ??
+    /(?:^|[^0-9])([1-3])\s*\+/.exec(text);
+  return match === null ? null : parseInt(match[1], 10);
+}
+
+/**
+ * Parses a textual HER2 ISH result, such as "Amplified" or "Not amplified".
+ * @param text the text to parse
+ * @returns true if amplified, false if not, null if equivocal, or undefined
+ *   if it isn't an ISH result
+ */
+export function parseISHResult(text: string): boolean | null | undefined {
+  if (/\b(?:not|non)[\s-]*amplified\b/i.test(text)) {
+    return false;
+  }
+  if (/\bequivocal\b/i.test(text)) {
+    return null;
+  }
+  if (/\bamplified\b/i.test(text)) {
+    return true;
+  }
+  return undefined;
+}
+
+function ihcResult(score: number): boolean | null {
+  // 2+ is borderline and needs an ISH test to decide
+  return score === 3 ? true : score === 2 ? null : false;
+}
+
+/**
+ * Finds the HER2/CEP17 ratio and average copy number within the quantities
+ * of an observation, based on their units.
+ */
+function findISHQuantities(observation: Observation): {
+  ratio: number | null;
+  copyNumber: number | null;
+} {
+  const quantities: Quantity[] = [];
+  if (observation.valueQuantity) {
+    quantities.push(observation.valueQuantity);
+  }
+  if (Array.isArray(observation.component)) {
+    for (const component of observation.component) {
+      if (component?.valueQuantity) {
+        quantities.push(component.valueQuantity);
+      }
+    }
+  }
+  let ratio: number | null = null;
+  let copyNumber: number | null = null;
+  for (const quantity of quantities) {
+    const unit = ucumUnitFor(quantity)?.toLowerCase();
+    if (typeof quantity.value !== 'number' || unit === undefined) {
+      continue;
+    }
+    if (unit === '{ratio}' || unit === 'ratio') {
+      ratio = quantity.value;
+    } else if (
+      unit.includes('nucleus') ||
+      unit.includes('cop') ||
+      unit.includes('cell')
+    ) {
+      copyNumber = quantity.value;
+    }
+  }
+  return { ratio, copyNumber };
+}
+
+function scoreHER2(
+  observation: Observation,
+  guideline: ScoringGuideline
+): boolean | null | undefined {
+  for (const text of valueTexts(observation)) {
+    const ish = parseISHResult(text);
+    if (ish !== undefined) {
+      return ish;
+    }
+    const score = parseIHCScore(text);
+    if (score !== null) {
+      return ihcResult(score);
+    }
+  }
+  const isIHC = observation.code?.coding?.some(
+    (code) =>
+      normalizeSystem(code?.system) === LOINC_SYSTEM &&
+      HER2_IHC_LOINC_CODES.has(code.code)
+  );
+  const number = observation.valueInteger ?? observation.valueQuantity?.value;
+  if (
+    isIHC &&
+    typeof number === 'number' &&
+    Number.isInteger(number) &&
+    number >= 0 &&
+    number <= 3
+  ) {
+    return ihcResult(number);
+  }
+  const { ratio, copyNumber } = findISHQuantities(observation);
+  if (ratio !== null || copyNumber !== null) {
+    return guideline.ishAmplified(ratio, copyNumber);
+  }
+  return undefined;
+}
+
+/**
+ * Finds the percentage of cells staining in a hormone receptor observation.
+ */
+function findPercentage(observation: Observation): number | null {
+  const quantity = observation.valueQuantity;
+  if (
+    quantity &&
+    typeof quantity.value === 'number' &&
+    ucumUnitFor(quantity) === '%'
+  ) {
+    return quantity.value;
+  }
+  if (typeof observation.valueString === 'string') {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*%\s*$/.exec(observation.valueString);
+    if (match) {
+      return parseFloat(match[1]);
+    }
+  }
+  return null;
+}
+
+/**
+ * Scores a HER2, ER or PR observation. HER2 is positive with an IHC score of
+ * 3+ or an amplified ISH result, negative with an IHC score of 0 or 1+ or a
+ * non-amplified ISH result, and borderline otherwise. ER and PR are positive
+ * when at least the guideline's percentage of cells stain.
+ * @param observation the observation to score
+ * @param guideline the guideline to score it by
+ * @returns the result, or null if this isn't a receptor observation that can
+ *   be scored by these rules
+ */
+export function scoreReceptorObservation(
+  observation: Observation,
+  guideline: ScoringGuideline = DEFAULT_SCORING_GUIDELINE
+): ReceptorResult | null {
+  const flag = receptorFlagFor(observation.code);
+  if (flag === null) {
+    return null;
+  }
+  if (flag === 'her2') {
+    const positive = scoreHER2(observation, guideline);
+    return positive === undefined ? null : { flag, positive };
+  }
+  const percentage = findPercentage(observation);
+  return percentage === null
+    ? null
+    : { flag, positive: percentage >= guideline.hormoneReceptorPositiveFrom };
+}
@@ -53,8 +53,24 @@ const recruitingStatusMapping = new Map<string, FhirResearchStudy['status']>([
   ['Not yet recruiting', 'approved'],
   // FIXME: Is 'temporarily-closed-to-accrual' correct for this?
   ['Enrolling by invitation', 'temporarily-closed-to-accrual'],
+  ['Active, not recruiting', 'closed-to-accrual'],
+  ['Suspended', 'temporarily-closed-to-accrual'],
+  ['Completed', 'completed'],
+  ['Terminated', 'administratively-completed'],
+  ['Withdrawn', 'withdrawn'],
 ]);
 
+/**
+ * Converts an Ancora recruiting status to a FHIR ResearchStudy status.
+ * @param recruitingStatus the Ancora recruiting status
+ * @returns the FHIR status, or undefined if the status isn't known
+ */
+export function convertRecruitingStatus(
+  recruitingStatus: string
+): FhirResearchStudy['status'] | undefined {
+  return recruitingStatusMapping.get(recruitingStatus);
+}
+
 const phaseMapping = new Map<string, string>([
   // Both N/A and Not Applicable show up
   ['N/A', 'n-a'],
@@ -113,7 +129,7 @@ export function convertToResearchStudy(
   // TODO: Technically description is Markdown.
   // Do things need to be escaped?
   result.description = trial.trial_summary;
-  const status = recruitingStatusMapping.get(trial.recruiting_status);
+  const status = convertRecruitingStatus(trial.recruiting_status);
   if (status !== undefined) {
     result.status = status;
   }
@@ -0,0 +1,177 @@
+/**
+ * Decides which resources to use based on their status, so that data that
+ * was entered in error, refuted, or cancelled never affects the query.
+ */
+
+import { CodeableConcept } from 'fhir/r4';
+
+/**
+ * Options controlling which resources are used based on their status.
+ */
+export interface StatusPolicy {
+  /**
+   * Whether preliminary observations and reports are used.
+   */
+  includePreliminaryResults: boolean;
+  /**
+   * Whether inactive and resolved conditions are excluded when detecting the
+   * type of disease. (They are still used for everything else, such as
+   * comorbidities.)
+   */
+  excludeInactiveDiseases: boolean;
+}
+
+export const DEFAULT_STATUS_POLICY: StatusPolicy = {
+  includePreliminaryResults: true,
+  excludeInactiveDiseases: false,
+};
+
+/**
+ * Verification status codes for data that should never be used. These are
+ * the same for conditions and allergies.
+ */
+const UNUSABLE_VERIFICATION_STATUSES = new Set<string>([
+  'refuted',
+  'entered-in-error',
+]);
+
+/**
+ * Clinical status codes for conditions and allergies that are no longer
+ * present. Remission (which only applies to conditions) is deliberately
+ * absent, as a disease in remission is still the patient's disease for the
+ * purposes of finding trials.
+ */
+const INACTIVE_CLINICAL_STATUSES = new Set<string>(['inactive', 'resolved']);
+
+/**
+ * Clinical status codes for conditions that are currently present.
+ * Recurrence and relapse are kinds of active status.
+ */
+const ACTIVE_CLINICAL_STATUSES = new Set<string>([
+  'active',
+  'recurrence',
+  'relapse',
+]);
+
+/**
+ * Observation and DiagnosticReport statuses for results that should never be
+ * used.
+ */
+const UNUSABLE_RESULT_STATUSES = new Set<string>([
+  'cancelled',
+  'entered-in-error',
+]);
+
+/**
+ * Statuses of medication statements, requests, and administrations and of
+ * procedures for treatments that never happened (or were never going to
+ * happen) and so say nothing about the patient's treatments.
+ */
+const UNUSABLE_TREATMENT_STATUSES = new Set<string>([
+  'cancelled',
+  'draft',
+  'entered-in-error',
+  'intended',
+  'not-done',
+  'not-taken',
+]);
+
+/**
+ * MedicationRequest intents for actual orders. Other intents (such as plans,
+ * proposals, and options) are only suggestions and may never be acted on.
+ */
+const ORDER_INTENTS = new Set<string>([
+  'order',
+  'original-order',
+  'reflex-order',
+  'filler-order',
+  'instance-order',
+]);
+
+function hasCode(
+  concept: CodeableConcept | undefined,
+  codes: Set<string>
+): boolean {
+  const coding = concept?.coding;
+  return (
+    Array.isArray(coding) &&
+    coding.some(
+      (code) => typeof code?.code === 'string' && codes.has(code.code)
+    )
+  );
+}
+
+/**
+ * Determines if a resource has been refuted or was entered in error, based on
+ * its verification status.
+ * @param resource the resource (a Condition or AllergyIntolerance)
+ * @returns true if the resource should be ignored
+ */
+export function isRefutedOrEnteredInError(resource: {
+  verificationStatus?: CodeableConcept;
+}): boolean {
+  return hasCode(resource.verificationStatus, UNUSABLE_VERIFICATION_STATUSES);
+}
+
+/**
+ * Determines if a resource is inactive or resolved, based on its clinical
+ * status.
+ * @param resource the resource (a Condition or AllergyIntolerance)
+ * @returns true if the resource is inactive or resolved
+ */
+export function isInactiveOrResolved(resource: {
+  clinicalStatus?: CodeableConcept;
+}): boolean {
+  return hasCode(resource.clinicalStatus, INACTIVE_CLINICAL_STATUSES);
+}
+
+/**
+ * Determines if a condition is known to be currently present, based on its
+ * clinical status. A condition without a clinical status is not.
+ * @param condition the condition to check
+ * @returns true if the condition is active
+ */
+export function isActiveCondition(condition: {
+  clinicalStatus?: CodeableConcept;
+}): boolean {
+  return hasCode(condition.clinicalStatus, ACTIVE_CLINICAL_STATUSES);
+}
+
+/**
+ * Determines if an Observation or DiagnosticReport should be used based on
+ * its status.
+ * @param status the status of the result
+ * @param policy the status policy
+ * @returns true if the result should be used
+ */
+export function isUsableResultStatus(
+  status: string | undefined,
+  policy: StatusPolicy = DEFAULT_STATUS_POLICY
+): boolean {
+  if (typeof status !== 'string') {
+    return true;
+  }
+  if (status === 'preliminary') {
+    return policy.includePreliminaryResults;
+  }
+  return !UNUSABLE_RESULT_STATUSES.has(status);
+}
+
+/**
+ * Determines if a medication request is an actual order, based on its intent.
+ * @param intent the intent of the request
+ * @returns true if the request should be used
+ */
+export function isOrderIntent(intent: string | undefined): boolean {
+  return typeof intent !== 'string' || ORDER_INTENTS.has(intent);
+}
+
+/**
+ * Determines if a medication statement, request, or administration or a
+ * procedure should be used based on its status.
+ * @param status the status of the treatment
+ * @returns true if the treatment should be used
+ */
+export function isUsableTreatmentStatus(status: string | undefined): boolean {
+  return typeof status !== 'string' || !UNUSABLE_TREATMENT_STATUSES.has(status);
+}
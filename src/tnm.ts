@@ -0,0 +1,248 @@
+/**
+ * Support for deriving an overall tumor stage from separate TNM category
+ * values (the primary tumor, regional lymph nodes, and distant metastases).
+ * The staging rules are a simplified form of the AJCC anatomic stage groups
+ * and only produce the stage number (0-4) Ancora expects.
+ */
+
+import { AncoraQueryDisease } from './ancora-mapping-data';
+
+export type TNMCategory = 'T' | 'N' | 'M';
+
+/**
+ * A single parsed TNM category value, such as cT2b or pN1mi.
+ */
+export interface TNMValue {
+  category: TNMCategory;
+  /**
+   * The numeric value of the category, or 'is' for a carcinoma in situ.
+   */
+  value: number | 'is';
+  /**
+   * Any subcategory (such as "a" in T2a or "mi" in N1mi), lower-cased, or an
+   * empty string if there was none.
+   */
+  subcategory: string;
+}
+
+/**
+ * The TNM values known for a patient. Any of them may be missing.
+ */
+export interface TNMClassification {
+  T?: TNMValue;
+  N?: TNMValue;
+  M?: TNMValue;
+}
+
+const TNM_PATTERN =
+  /^(?:AJCC\s+)?(?:[cpyra]{1,2})?([TNM])?(X|is|[0-4])(mi|[a-d])?(?![0-9])/i;
+
+/**
+ * Parses a TNM category value like "cT3", "pN1a", "M0", or "T2b". If the
+ * category is already known (from the observation it came from) the letter
+ * may be omitted, so "3" will parse as a T3 when the category is 'T'.
+ * @param code the code (or display text) to parse
+ * @param category the expected category, if known
+ * @returns the parsed value or null if it could not be parsed, does not
+ *   match the expected category, or is unknown (TX, NX, MX)
+ */
+export function parseTNMValue(
+  code: string | undefined,
+  category?: TNMCategory
+): TNMValue | null {
+  if (typeof code !== 'string') {
+    return null;
+  }
+  const match = TNM_PATTERN.exec(code.trim());
+  if (match === null) {
+    return null;
+  }
+  const parsedCategory = (match[1]?.toUpperCase() ?? category) as
+    | TNMCategory
+    | undefined;
+  if (
+    parsedCategory === undefined ||
+    (category !== undefined && parsedCategory !== category)
+  ) {
+    return null;
+  }
+  const rawValue = match[2].toLowerCase();
+  if (rawValue === 'x') {
+    // Cannot be assessed, so tells us nothing
+    return null;
+  }
+  const subcategory = (match[3] ?? '').toLowerCase();
+  if (rawValue === 'is') {
+    return parsedCategory === 'T'
+      ? { category: parsedCategory, value: 'is', subcategory: subcategory }
+      : null;
+  }
+  const value = parseInt(rawValue, 10);
+  // There are no N4 or M2+ categories
+  if (
+    (parsedCategory === 'N' && value > 3) ||
+    (parsedCategory === 'M' && value > 1)
+  ) {
+    return null;
+  }
+  return { category: parsedCategory, value: value, subcategory: subcategory };
+}
+
+/**
+ * A function that determines the stage for a given T and N category when
+ * there are no distant metastases. T is never in situ (Tis N0 is always
+ * stage 0 and Tis with positive nodes is treated as T0).
+ */
+type StageRule = (
+  t: number,
+  tSub: string,
+  n: number,
+  nSub: string
+) => number | null;
+
+/**
+ * Rule used for diseases without a more specific table: node-positive
+ * disease is stage 3, otherwise the stage follows the size of the tumor.
+ */
+const genericStageRule: StageRule = (t, tSub, n) => {
+  if (n > 0) {
+    return 3;
+  }
+  if (t === 0) {
+    // No evidence of a primary tumor
+    return null;
+  }
+  return t === 1 ? 1 : t === 4 ? 3 : 2;
+};
+
+/**
+ * Per-disease staging rules, for diseases where the stage groups differ from
+ * the generic rule.
+ */
+const diseaseStageRules = new Map<AncoraQueryDisease, StageRule>([
+  [
+    'breast_cancer',
+    (t, tSub, n, nSub) => {
+      if (n >= 2 || t === 4) {
+        return 3;
+      }
+      if (n === 1) {
+        if (nSub === 'mi' && t <= 1) {
+          // T0-1 N1mi is stage IB
+          return 1;
+        }
+        return t === 3 ? 3 : 2;
+      }
+      if (t === 0) {
+        return null;
+      }
+      return t === 1 ? 1 : 2;
+    }
+  ],
+  [
+    'colorectal_cancer',
+    (t, tSub, n) => {
+      if (n > 0) {
+        return 3;
+      }
+      if (t === 0) {
+        return null;
+      }
+      return t <= 2 ? 1 : 2;
+    }
+  ],
+  [
+    'lung_cancer',
+    (t, tSub, n) => {
+      if (n >= 2 || t === 4) {
+        return 3;
+      }
+      if (n === 1) {
+        return t === 3 ? 3 : 2;
+      }
+      if (t === 0) {
+        return null;
+      }
+      if (t === 2) {
+        // T2a N0 is stage IB, T2b N0 is stage IIA
+        return tSub === 'b' ? 2 : 1;
+      }
+      return t === 1 ? 1 : 2;
+    }
+  ],
+  [
+    'melanoma',
+    (t, tSub, n) => {
+      if (n > 0) {
+        return 3;
+      }
+      if (t === 0) {
+        return null;
+      }
+      // T2a N0 is still stage IB
+      return t === 1 || (t === 2 && tSub === 'a') ? 1 : 2;
+    }
+  ],
+  [
+    'kidney_cancer',
+    (t, tSub, n) => {
+      if (t === 4) {
+        return 4;
+      }
+      if (n > 0 || t === 3) {
+        return 3;
+      }
+      return t === 0 ? null : t;
+    }
+  ],
+  [
+    'pancreatic_cancer',
+    (t, tSub, n) => {
+      if (n >= 2 || t === 4) {
+        return 3;
+      }
+      if (n === 1 || t === 3) {
+        return 2;
+      }
+      return t === 0 ? null : 1;
+    }
+  ],
+  [
+    'prostate_cancer',
+    (t, tSub, n) => {
+      if (n > 0) {
+        return 4;
+      }
+      // Otherwise the stage depends on the PSA and grade group, except that
+      // T4 is always stage III
+      return t === 4 ? 3 : null;
+    }
+  ],
+]);
+
+/**
+ * Determines the overall stage (0-4) from TNM category values. M1 is always
+ * stage 4. Otherwise both T and N are required, and a missing M is treated
+ * as M0.
+ * @param tnm the TNM values
+ * @param disease the type of disease, used to pick the staging rules
+ * @returns the stage or null if it can't be determined
+ */
+export function stageFromTNM(
+  tnm: TNMClassification,
+  disease?: AncoraQueryDisease | null
+): number | null {
+  if (tnm.M && tnm.M.value === 1) {
+    return 4;
+  }
+  if (!tnm.T || !tnm.N) {
+    return null;
+  }
+  const n = tnm.N.value as number;
+  if (tnm.T.value === 'is' && n === 0) {
+    return 0;
+  }
+  const t = tnm.T.value === 'is' ? 0 : tnm.T.value;
+  const rule = diseaseStageRules.get(disease) ?? genericStageRule;
+  return rule(t, tnm.T.subcategory, n, tnm.N.subcategory);
+}
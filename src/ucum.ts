@@ -0,0 +1,102 @@
+/**
+ * Minimal support for converting FHIR Quantity values between UCUM units.
+ * This only knows about the units the Ancora criteria actually need.
+ */
+
+import { Quantity } from 'fhir/r4';
+
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+/**
+ * Map of UCUM unit codes to the factor that converts a value in that unit to
+ * the target unit.
+ */
+export type UnitConversions = Map<string, number>;
+
+/**
+ * Conversions for lengths into centimeters.
+ */
+export const LENGTH_TO_CM: UnitConversions = new Map<string, number>([
+  ['mm', 0.1],
+  ['cm', 1],
+  ['m', 100],
+  ['[in_i]', 2.54],
+  ['[in_us]', 2.54],
+]);
+
+/**
+ * Conversions for mass concentrations into ng/mL (the units PSA is reported
+ * in). Note that ng/mL and ug/L are the same concentration.
+ */
+export const MASS_CONCENTRATION_TO_NG_PER_ML: UnitConversions = new Map<string, number>([
+  ['ng/mL', 1],
+  ['ug/L', 1],
+  ['ng/dL', 0.01],
+  ['ng/L', 0.001],
+  ['pg/mL', 0.001],
+]);
+
+/**
+ * Non-UCUM unit strings that show up in the unit field in practice, mapped to
+ * their UCUM equivalent.
+ */
+const unitAliases = new Map<string, string>([
+  ['in', '[in_i]'],
+  ['inch', '[in_i]'],
+  ['inches', '[in_i]'],
+  ['"', '[in_i]'],
+  ['ng/ml', 'ng/mL'],
+  ['µg/l', 'ug/L'],
+  ['mcg/l', 'ug/L'],
+]);
+
+/**
+ * Determine the UCUM code for a quantity. The code is preferred when the
+ * system is UCUM (or missing), otherwise the human-readable unit is used.
+ * @param quantity the quantity to inspect
+ * @returns the UCUM unit code or null if none could be found
+ */
+export function ucumUnitFor(quantity: Quantity): string | null {
+  if (
+    typeof quantity.code === 'string' &&
+    (quantity.system === undefined || quantity.system === UCUM_SYSTEM)
+  ) {
+    return quantity.code;
+  }
+  if (typeof quantity.unit === 'string') {
+    const unit = quantity.unit.trim();
+    return unitAliases.get(unit.toLowerCase()) ?? unit;
+  }
+  return null;
+}
+
+/**
+ * Converts a quantity using the given conversions.
+ * @param quantity the quantity to convert
+ * @param conversions the conversions to use
+ * @returns the converted value or null if the quantity has no numeric value
+ *   or its unit is not in the conversions
+ */
+export function convertQuantity(
+  quantity: Quantity | undefined,
+  conversions: UnitConversions
+): number | null {
+  if (
+    typeof quantity !== 'object' ||
+    quantity === null ||
+    typeof quantity.value !== 'number' ||
+    isNaN(quantity.value)
+  ) {
+    return null;
+  }
+  const unit = ucumUnitFor(quantity);
+  if (unit === null) {
+    return null;
+  }
+  const factor = conversions.get(unit);
+  if (factor === undefined) {
+    return null;
+  }
+  // Round off floating point noise (0.1 * 25 is not exactly 2.5)
+  return Math.round(quantity.value * factor * 1e6) / 1e6;
+}
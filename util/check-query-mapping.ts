@@ -1,7 +1,7 @@
 // Utility script to check what flags in the criteria have codes mapped to them
 
 import { AncoraCriterionFlag } from "../src/ancora-query";
-import { ancoraCriterionCodes } from "../src/ancora-mapping-data";
+import { ancoraComorbidityCodes, ancoraCriterionCodes, ancoraGeneCodes } from "../src/ancora-mapping-data";
 
 // This type is to ensure nothing got missed
 type MappedCriteria = Record<AncoraCriterionFlag, number>;
@@ -118,6 +118,18 @@ for (const [flag, mappings] of ancoraCriterionCodes) {
   );
 }
 
+// Comorbidity and gene codes are mapped separately
+for (const [flag, mappings] of ancoraComorbidityCodes) {
+  mappedCounts[flag] += Array.from(mappings.values()).reduce(
+    (count, mappedValues) => count += mappedValues.length,
+    0
+  );
+}
+
+for (const [flag, codes] of ancoraGeneCodes) {
+  mappedCounts[flag] += codes.length;
+}
+
 // And report:
 
 // Convert to pairs so we can sort this mess